@@ -1,12 +1,27 @@
-import TelegramBot, { SendMessageOptions } from 'node-telegram-bot-api';
+import TelegramBot from 'node-telegram-bot-api';
 import dotenv from 'dotenv';
 import { UserService } from '../services/user';
 import { WalletService } from '../services/wallet';
 import { initializeSDK, createOrder } from 'paj_ramp';
-import { UserSession } from '../types';
-import { SwapService } from '../services/swap';
+import { UserSession, Transaction, UserPreferences, Wallet } from '../types';
+import { SwapService, SwapQuote, formatQuotePreview } from '../services/swap';
 import { PortfolioService } from '../services/portfolio';
 import { OfframpService } from '../services/offramp';
+import { LimitOrderService, LimitOrderResult } from '../services/limit-orders';
+import { DcaService, DcaRunResult, parseCadence } from '../services/dca';
+import { AlertService, AlertTrigger, parseUsdValue, parseCooldown } from '../services/alerts';
+import { ConfirmationService, ConfirmationResult } from '../services/confirmations';
+import { IncomingTransferService, IncomingTransferResult } from '../services/incoming';
+import { DEFAULT_DERIVATION_PATH, isValidDerivationPath } from '../utils/key-import';
+import { AuditService } from '../services/audit';
+import { ActionGuardService, AutoApproveDecision, GuardedAction } from '../services/action-guard';
+import { RiskService } from '../services/risk';
+import { FiatAmountService, FiatConversion, parseFiatAmount, formatFiat } from '../services/fiat-amounts';
+import { PendingActionService, PendingAction, PendingActionType } from '../services/pending-actions';
+import { ContactService, looksLikeAddress } from '../services/contacts';
+import { getNameResolver, isSolDomain } from '../services/name-resolver';
+import { BatchSendService, BatchSendPlan, PlannedTransfer, MAX_BATCH_ROWS } from '../services/batch-send';
+import bs58 from 'bs58';
 // Research mode tools
 import { searchToken } from '../../src/mastra/agents/solana-agent/tools/searchToken';
 import { tokenInfo } from '../../src/mastra/agents/solana-agent/tools/tokenInfo';
@@ -16,6 +31,13 @@ import { getWalletPortfolio } from '../../src/mastra/agents/solana-agent/tools/g
 import { tokenValidator, singleTokenValidator } from '../../src/mastra/agents/solana-agent/tools/tokenValidator';
 import { OnlineSentimentService } from '../services/sentiment';
 
+const REPLY_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Thrown when a reply prompt times out or the user sends a command instead. The user has already been told.
+ */
+class PromptCancelledError extends Error {}
+
 export class TelegramBotRunner {
   private bot: TelegramBot;
   private userService = new UserService();
@@ -24,6 +46,24 @@ export class TelegramBotRunner {
   private portfolioService: PortfolioService;
   private sentimentService: OnlineSentimentService;
   private offrampService: OfframpService;
+  private limitOrderService: LimitOrderService;
+  private dcaService: DcaService;
+  private alertService: AlertService;
+  private confirmationService: ConfirmationService;
+  private incomingTransferService: IncomingTransferService;
+  private auditService: AuditService;
+  private actionGuard: ActionGuardService;
+  private riskService: RiskService;
+  private fiatAmounts: FiatAmountService;
+  private batchSendService: BatchSendService;
+  private pendingActions = new PendingActionService();
+  private contactService = new ContactService();
+  // Prompts whose replies are consumed by a listener (often secrets) and must never reach the natural language handlers
+  private replyPromptIds = new Set<number>();
+  // "chatId:userId" -> open secret prompts; that user's next message there is the answer, reply or not
+  private secretPrompts = new Map<string, number>();
+  // Action IDs whose Confirm/Cancel tap is being handled, so a double tap cannot run an action twice
+  private tappedActionIds = new Set<string>();
 
   constructor() {
     dotenv.config();
@@ -34,12 +74,1258 @@ export class TelegramBotRunner {
     this.portfolioService = new PortfolioService(process.env.SOLANA_RPC_URL);
     this.sentimentService = new OnlineSentimentService();
     this.offrampService = new OfframpService();
+    this.limitOrderService = new LimitOrderService(process.env.SOLANA_RPC_URL);
+    this.dcaService = new DcaService(process.env.SOLANA_RPC_URL);
+    this.alertService = new AlertService(process.env.SOLANA_RPC_URL);
+    this.confirmationService = new ConfirmationService(process.env.SOLANA_RPC_URL);
+    this.incomingTransferService = new IncomingTransferService(process.env.SOLANA_RPC_URL);
+    this.auditService = new AuditService();
+    this.actionGuard = new ActionGuardService(process.env.SOLANA_RPC_URL);
+    this.riskService = new RiskService(process.env.SOLANA_RPC_URL);
+    this.fiatAmounts = new FiatAmountService(process.env.SOLANA_RPC_URL);
+    this.batchSendService = new BatchSendService(process.env.SOLANA_RPC_URL);
     
     const token = process.env.TELEGRAM_BOT_TOKEN;
     if (!token) throw new Error('Missing TELEGRAM_BOT_TOKEN');
 
     this.bot = new TelegramBot(token, { polling: true });
     this.registerHandlers();
+
+    // Background watchers
+    this.limitOrderService.start((result) => this.notifyLimitOrder(result));
+    this.dcaService.start((result) => this.notifyDcaRun(result));
+    this.alertService.start((trigger) => this.notifyAlert(trigger));
+    this.confirmationService.start((result) => this.notifyTransactionStatus(result));
+    this.incomingTransferService.start((result) => this.notifyIncomingTransfer(result));
+    this.pendingActions.start((userId, action) => this.notifyPendingExpired(action));
+  }
+
+  private async notifyLimitOrder(result: LimitOrderResult) {
+    const { order, signature, error, price } = result;
+    const chatId = Number(order.chat_id);
+    const summary = `${order.side.toUpperCase()} ${order.amount} ${order.input_symbol} → ${order.output_symbol} (${order.watch_symbol} ${order.trigger_condition} $${order.trigger_price})`;
+    try {
+      if (signature) {
+        const explorer = process.env.SOLANA_CLUSTER === 'devnet'
+          ? `https://solscan.io/tx/${signature}?cluster=devnet`
+          : `https://solscan.io/tx/${signature}`;
+        await this.bot.sendMessage(chatId, `✅ Limit order filled at $${price}\n${summary}\nSignature: ${signature}\nExplorer: ${explorer}`);
+      } else {
+        await this.bot.sendMessage(chatId, `❌ Limit order triggered at $${price} but the swap failed: ${error}\n${summary}`);
+      }
+    } catch (e) {
+      console.error('Failed to notify limit order result:', e);
+    }
+  }
+
+  private async notifyDcaRun(result: DcaRunResult) {
+    const { plan, signature, error, skippedRuns, completed, nextRunAt } = result;
+    const chatId = Number(plan.chat_id);
+    const lines: string[] = [];
+    if (signature) {
+      const explorer = process.env.SOLANA_CLUSTER === 'devnet'
+        ? `https://solscan.io/tx/${signature}?cluster=devnet`
+        : `https://solscan.io/tx/${signature}`;
+      lines.push(`✅ DCA: swapped ${plan.amount} ${plan.input_symbol} to ${plan.output_symbol}`);
+      lines.push(`Signature: ${signature}`);
+      lines.push(`Explorer: ${explorer}`);
+    } else if (error) {
+      lines.push(`❌ DCA leg failed (${plan.amount} ${plan.input_symbol} → ${plan.output_symbol}): ${error}`);
+    } else {
+      lines.push(`⏭ DCA (${plan.amount} ${plan.input_symbol} → ${plan.output_symbol}) did not run this time.`);
+    }
+    if (skippedRuns > 0) {
+      lines.push(`${skippedRuns} scheduled leg(s) were missed while the bot was offline and were skipped.`);
+    }
+    if (completed) {
+      lines.push('This plan has reached its end date and is now complete.');
+    } else if (nextRunAt) {
+      lines.push(`Next run: ${nextRunAt.replace('T', ' ').slice(0, 16)} UTC`);
+    }
+    try {
+      await this.bot.sendMessage(chatId, lines.join('\n'));
+    } catch (e) {
+      console.error('Failed to notify DCA result:', e);
+    }
+  }
+
+  private async notifyPendingExpired(action: PendingAction) {
+    if (action.messageId) {
+      await this.bot.editMessageReplyMarkup({ inline_keyboard: [] }, { chat_id: action.chatId, message_id: action.messageId }).catch(() => {});
+    }
+    await this.bot.sendMessage(action.chatId, `⌛ The pending ${this.describeAction(action)} expired and was not executed. Send the command again for a fresh quote.`);
+  }
+
+  private async notifyAlert(trigger: AlertTrigger) {
+    const { alert, value } = trigger;
+    const label = alert.metric === 'mcap' ? 'market cap' : 'price';
+    const fmt = (n: number) => alert.metric === 'mcap'
+      ? `$${n.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+      : `$${n.toLocaleString(undefined, { maximumSignificantDigits: 6 })}`;
+    const lines = [
+      `🔔 ${alert.token_symbol} ${label} is ${alert.alert_condition} ${fmt(Number(alert.threshold))}`,
+      `Current ${label}: ${fmt(value)}`,
+      alert.is_repeating
+        ? `This alert repeats at most every ${Math.round(Number(alert.cooldown_seconds) / 60)} min. Use /alert_cancel to stop it.`
+        : 'This one-shot alert is now done.',
+    ];
+    await this.bot.sendMessage(Number(alert.chat_id), lines.join('\n'));
+  }
+
+  private async notifyTransactionStatus(result: ConfirmationResult) {
+    const { transaction, status, reason, error } = result;
+    // Only user-initiated transfers and swaps are worth a message; receives are announced elsewhere
+    if (!['send', 'swap', 'offramp'].includes(transaction.transaction_type)) return;
+
+    let headline: string;
+    if (status === 'confirmed') {
+      headline = `✅ Your ${transaction.transaction_type} is finalized.`;
+    } else if (reason === 'expired') {
+      headline = `⚠️ Your ${transaction.transaction_type} was dropped before landing (blockhash expired). No funds moved; you can safely retry.`;
+    } else {
+      headline = `❌ Your ${transaction.transaction_type} failed on-chain${error ? `: ${error}` : '.'}`;
+    }
+    try {
+      // Telegram private chat ids equal the user id
+      await this.bot.sendMessage(Number(transaction.user_id), `${headline}\n${this.formatTransaction(transaction, false)}`, { disable_web_page_preview: true });
+    } catch (e) {
+      console.error('Failed to notify transaction status:', e);
+    }
+  }
+
+  private async notifyIncomingTransfer(result: IncomingTransferResult) {
+    const { wallet, chatId, signature, transfers } = result;
+    const short = (a: string) => `${a.slice(0, 6)}...${a.slice(-6)}`;
+    const explorer = process.env.SOLANA_CLUSTER === 'devnet'
+      ? `https://solscan.io/tx/${signature}?cluster=devnet`
+      : `https://solscan.io/tx/${signature}`;
+    const lines = transfers.map(t =>
+      `📥 Received ${t.amount.toLocaleString(undefined, { maximumFractionDigits: 9 })} ${t.symbol}${t.usd !== undefined ? ` (~$${t.usd.toFixed(2)})` : ''} from ${short(t.from)}`
+    );
+    lines.push(`Wallet: ${wallet.wallet_name}`);
+    lines.push(`Explorer: ${explorer}`);
+    try {
+      await this.bot.sendMessage(chatId, lines.join('\n'), { disable_web_page_preview: true });
+    } catch (e) {
+      console.error('Failed to notify incoming transfer:', e);
+    }
+  }
+
+  /**
+   * Deletes the message holding a secret, then imports the wallet it describes
+   */
+  private async importWalletFromMessage(chatId: number, userId: bigint, messageId: number, secret: string, derivationPath?: string) {
+    let deleted = true;
+    try {
+      await this.bot.deleteMessage(chatId, messageId);
+    } catch (e) {
+      deleted = false;
+      console.error('Failed to delete secret message:', e instanceof Error ? e.message : e);
+    }
+
+    try {
+      const wallets = await this.walletService.getUserWallets(userId, true);
+      const result = await this.walletService.importWallet(userId, secret, `Wallet ${wallets.length + 1}`, derivationPath);
+      if (!result.success) {
+        await this.bot.sendMessage(chatId, `❌ Import failed: ${result.error}`);
+      } else {
+        const lines = [
+          '✅ Wallet imported!',
+          `Name: ${result.wallet.wallet_name}`,
+          `Public Key: ${result.wallet.public_key}`,
+          `Primary: ${result.wallet.is_primary ? 'Yes' : 'No'}`,
+        ];
+        if (result.derivationPath) lines.push(`Derivation path: ${result.derivationPath}`);
+        if (result.source === 'mnemonic') {
+          lines.push('', 'Not the address you expected? Run /import_wallet m/44\'/501\'/1\'/0\' (another account) or /import_wallet m/44\'/501\' (Solana CLI) and send the phrase again.');
+        }
+        await this.bot.sendMessage(chatId, lines.join('\n'));
+      }
+    } finally {
+      if (!deleted) {
+        await this.bot.sendMessage(chatId, '⚠️ I could not delete the message containing your secret. Please delete it yourself now.');
+      }
+    }
+  }
+
+  /**
+   * Records a created on-ramp order against the receiving wallet, or the primary wallet for external recipients
+   */
+  private async recordOnrampOrder(
+    userId: bigint,
+    order: any,
+    details: { fiatAmount: number; currency: string; recipient: string; mint: string; chain: string }
+  ) {
+    try {
+      const wallets = await this.walletService.getUserWallets(userId, true);
+      const wallet = wallets.find(w => w.public_key === details.recipient) || wallets.find(w => w.is_primary);
+      if (!wallet) return;
+      await this.walletService.recordTransaction(wallet.id, null, 'onramp', Number(order?.fiatAmount ?? details.fiatAmount), details.mint, {
+        orderId: order?.id,
+        fiatAmount: Number(order?.fiatAmount ?? details.fiatAmount),
+        currency: order?.currency ?? details.currency,
+        recipient: details.recipient,
+        chain: details.chain,
+        bank: order?.bank,
+      });
+    } catch (e) {
+      console.error('Failed to record on-ramp order:', e);
+    }
+  }
+
+  private formatTransaction(tx: Transaction & { wallet_name: string }, showWallet: boolean): string {
+    let meta: Record<string, any> = {};
+    try {
+      meta = tx.metadata ? JSON.parse(tx.metadata) : {};
+    } catch {}
+
+    const short = (a?: string) => (a ? `${a.slice(0, 4)}...${a.slice(-4)}` : '?');
+    const token = (mint?: string | null, symbol?: string) =>
+      symbol || (mint && mint !== 'So11111111111111111111111111111111111111112' ? short(mint) : 'SOL');
+    const amount = Number(tx.amount);
+
+    let what: string;
+    switch (tx.transaction_type) {
+      case 'swap':
+        what = `Swap ${amount} ${token(meta.inputMint ?? tx.token_mint, meta.inputSymbol)} → ${meta.outAmount ? `${Number(meta.outAmount).toLocaleString(undefined, { maximumSignificantDigits: 6 })} ` : ''}${token(meta.outputMint, meta.outputSymbol)}${meta.source ? ` (${meta.source === 'dca' ? 'DCA' : 'limit order'})` : ''}`;
+        break;
+      case 'send':
+        what = Array.isArray(meta.transfers)
+          ? `Batch send: ${meta.transfers.length} transfer(s)${amount ? ` totalling ${amount} ${token(tx.token_mint, meta.symbol)}` : ''}`
+          : `Sent ${amount} ${token(tx.token_mint, meta.symbol)} to ${short(meta.to)}`;
+        break;
+      case 'receive':
+        what = `Received ${amount} ${token(tx.token_mint, meta.symbol)} from ${short(meta.from)}`;
+        break;
+      case 'offramp':
+        what = `Offramp ${amount} ${token(tx.token_mint, meta.symbol)} → ${meta.fiatAmount ?? '?'} ${meta.currency || ''}`.trim();
+        break;
+      case 'onramp':
+        what = `Onramp ${amount} ${meta.currency || ''} → ${token(tx.token_mint, meta.symbol)}${meta.orderId ? ` (order ${meta.orderId})` : ''}`;
+        break;
+      default:
+        what = `${tx.transaction_type} ${amount}`;
+    }
+
+    const status = tx.status === 'confirmed' ? '✅' : tx.status === 'failed' ? '❌' : '⏳';
+    const when = String(tx.created_at).replace('T', ' ').slice(0, 16);
+    const lines = [`${status} ${what}`, `   ${when}${showWallet ? ` · ${tx.wallet_name}` : ''}`];
+    if (tx.signature) {
+      const explorer = process.env.SOLANA_CLUSTER === 'devnet'
+        ? `https://solscan.io/tx/${tx.signature}?cluster=devnet`
+        : `https://solscan.io/tx/${tx.signature}`;
+      lines.push(`   ${explorer}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Sends one page of the user's transaction history, optionally filtered by type and token
+   */
+  private async sendHistory(
+    chatId: number,
+    userId: bigint,
+    opts: { type?: Transaction['transaction_type']; token?: string; page?: number }
+  ) {
+    const pageSize = 10;
+    const page = Math.max(1, opts.page || 1);
+
+    let tokenMint: string | undefined;
+    let tokenSymbol: string | undefined;
+    if (opts.token) {
+      try {
+        const info = await this.swapService.resolveTokenInfo(opts.token);
+        tokenMint = info.address;
+        tokenSymbol = info.symbol;
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Unknown token: ${opts.token}`);
+        return;
+      }
+    }
+
+    const [{ transactions, total }, wallets] = await Promise.all([
+      this.walletService.getUserTransactions(userId, { type: opts.type, tokenMint, limit: pageSize, offset: (page - 1) * pageSize }),
+      this.walletService.getUserWallets(userId, true),
+    ]);
+
+    const filters = [opts.type, tokenSymbol].filter(Boolean).join(' ');
+    if (!total) {
+      await this.bot.sendMessage(chatId, `No ${filters ? `${filters} ` : ''}transactions found.`);
+      return;
+    }
+
+    const pages = Math.ceil(total / pageSize);
+    if (!transactions.length) {
+      await this.bot.sendMessage(chatId, `Page ${page} is empty. There ${pages === 1 ? 'is 1 page' : `are ${pages} pages`}.`);
+      return;
+    }
+
+    const lines = transactions.map((tx, idx) => `${(page - 1) * pageSize + idx + 1}. ${this.formatTransaction(tx, wallets.length > 1)}`);
+    const header = `📜 ${filters ? `${filters} ` : ''}transactions (page ${page}/${pages}, ${total} total)`;
+    const args = [opts.type, tokenSymbol].filter(Boolean).join(' ');
+    const more = page < pages ? `\n\nNext page: /history ${args ? `${args} ` : ''}${page + 1}` : '';
+    await this.bot.sendMessage(chatId, `${header}\n\n${lines.join('\n\n')}${more}`, { disable_web_page_preview: true });
+  }
+
+  /**
+   * Parses history filters from free text: a type word, "page N" or a bare number, and a token
+   */
+  private parseHistoryFilters(words: string[]): { type?: Transaction['transaction_type']; token?: string; page?: number } {
+    const types: Record<string, Transaction['transaction_type']> = {
+      send: 'send', sends: 'send', sent: 'send',
+      receive: 'receive', receives: 'receive', received: 'receive',
+      swap: 'swap', swaps: 'swap',
+      offramp: 'offramp', offramps: 'offramp',
+      onramp: 'onramp', onramps: 'onramp',
+      launch: 'token_launch', launches: 'token_launch',
+    };
+    const out: { type?: Transaction['transaction_type']; token?: string; page?: number } = {};
+    for (let i = 0; i < words.length; i++) {
+      const w = words[i].toLowerCase();
+      if (types[w]) out.type = types[w];
+      else if (w === 'page' && /^\d+$/.test(words[i + 1] || '')) out.page = Number(words[++i]);
+      else if (/^\d+$/.test(w)) out.page = Number(w);
+      else if (!out.token) out.token = words[i];
+    }
+    return out;
+  }
+
+  /**
+   * Parses "alert <token|mint X> [price|mcap] <above|below> <usd> [repeat [every 30m]]"
+   */
+  private parseAlertCommand(text: string) {
+    const m = text.match(/^\s*\/?alert\s+(?:mint\s+)?([A-Za-z0-9_:\-\.]{2,})\s+(?:(price|mcap|market\s*cap)\s+)?(above|below|over|under|>=?|<=?)\s+(\$?[\d.,]+(?:e-?\d+)?\s*[kmb]?)(?:\s+(repeat(?:ing)?)(?:\s+every\s+(\S+))?)?\s*$/i);
+    if (!m) return null;
+    const [, token, metricStr, opStr, valueStr, repeatStr, cooldownStr] = m;
+    const threshold = parseUsdValue(valueStr);
+    if (!threshold) return null;
+    const cooldownSeconds = cooldownStr ? parseCooldown(cooldownStr) : undefined;
+    if (cooldownSeconds === null) return null;
+    return {
+      token,
+      metric: (metricStr && /^m/i.test(metricStr) ? 'mcap' : 'price') as 'price' | 'mcap',
+      condition: (/^(above|over|>)/i.test(opStr) ? 'above' : 'below') as 'above' | 'below',
+      threshold,
+      repeating: !!repeatStr,
+      cooldownSeconds,
+    };
+  }
+
+  /**
+   * Splits a source wallet off a send/swap/offramp command: "from Trading wallet send 1 SOL to ..." or
+   * "swap 10 USDC to SOL from wallet 2". Returns the wallet reference and the command without it.
+   */
+  private parseSourceWallet(text: string): { ref: string; rest: string } | null {
+    const prefix = text.match(/^\s*from\s+(.+?)\s*[,:]?\s+((?:send|swap|sell|buy|offramp|withdraw)\b[\s\S]*)$/i);
+    if (prefix) return { ref: prefix[1], rest: prefix[2].trim() };
+    const suffix = text.match(/^([\s\S]+?)\s+from\s+((?:my\s+|the\s+)?(?:wallet\s+#?\d+|#\d+|.+?\s+wallet))\s*$/i);
+    if (suffix) return { ref: suffix[2], rest: suffix[1].trim() };
+    return null;
+  }
+
+  /**
+   * Short description of an action for status messages, e.g. "swap 1 SOL to BONK"
+   */
+  private describeAction(action: { type: PendingActionType; payload: any }): string {
+    const p = action.payload || {};
+    const fromWallet = p.walletName ? ` from ${p.walletName}` : '';
+    switch (action.type) {
+      case 'send': {
+        const recipientName = p.contact || p.domain;
+        return `send ${p.amount} ${p.symbol || 'SOL'} to ${recipientName ? `${recipientName} (${p.toAddress})` : p.toAddress}${fromWallet}`;
+      }
+      case 'swap':
+        return `swap ${p.amount} ${p.token ? 'SOL' : String(p.from).toUpperCase()} to ${String(p.token || p.to).toUpperCase()}${fromWallet}`;
+      case 'offramp':
+        return `offramp of ${p.amount}${p.currency ? ` to ${p.currency}` : ''}${fromWallet}`;
+      case 'limit_order':
+        return `limit order on ${String(p.token).toUpperCase()}`;
+      case 'dca':
+        return `DCA plan ${p.amount} ${String(p.from).toUpperCase()} → ${String(p.to).toUpperCase()}`;
+      case 'sweep':
+        return `sweep of ${p.walletName} to ${p.toWalletName}`;
+      case 'batch_send':
+        return `batch send of ${p.transfers?.length || 0} transfers${fromWallet}`;
+    }
+  }
+
+  /**
+   * Resolves a `.sol` domain to its owner's address. Null (after telling the user) when it does not resolve.
+   */
+  private async resolveDomain(chatId: number, domain: string): Promise<string | null> {
+    try {
+      const address = await getNameResolver().resolve(domain);
+      if (address) return address;
+      await this.bot.sendMessage(chatId, `${domain} is not a registered .sol domain.`);
+    } catch (e: any) {
+      await this.bot.sendMessage(chatId, `Could not resolve ${domain}: ${e?.message || e}`);
+    }
+    return null;
+  }
+
+  /**
+   * Resolves a send recipient typed as an address, a `.sol` domain or a contact name. `label` names the domain or
+   * contact next to the address so the user can check both before confirming. Null (after telling the user) when
+   * the name does not resolve.
+   */
+  private async resolveRecipient(chatId: number, userId: bigint, ref: string): Promise<{ address: string; contact?: string; domain?: string; label: string } | null> {
+    if (isSolDomain(ref)) {
+      const domain = ref.toLowerCase();
+      const address = await this.resolveDomain(chatId, domain);
+      return address ? { address, domain, label: `${domain} (${address})` } : null;
+    }
+    if (looksLikeAddress(ref)) {
+      const saved = await this.contactService.findByAddress(userId, ref);
+      return { address: ref, contact: saved?.name, label: saved ? `${saved.name} (${ref})` : ref };
+    }
+    const contact = await this.contactService.getContact(userId, ref);
+    if (!contact) {
+      await this.bot.sendMessage(chatId, `No contact named "${ref}". Save one first: save contact ${ref.toLowerCase()} <address>`);
+      return null;
+    }
+    return { address: contact.address, contact: contact.name, label: `${contact.name} (${contact.address})` };
+  }
+
+  /**
+   * Lists the user's saved contacts with full addresses
+   */
+  private async sendContactList(chatId: number, userId: bigint) {
+    const contacts = await this.contactService.listContacts(userId);
+    if (contacts.length === 0) {
+      await this.bot.sendMessage(chatId, 'No contacts saved yet. Add one with: save contact alice <address>');
+      return;
+    }
+    const lines = contacts.map(c => `• ${c.name}: ${c.address}`);
+    await this.bot.sendMessage(chatId, [`📒 Contacts (${contacts.length}):`, ...lines, '', 'Send with: send 1 SOL to <name>'].join('\n'));
+  }
+
+  /**
+   * Sends `header` and `lines` split over as many messages as Telegram's length limit needs
+   */
+  private async sendLines(chatId: number, header: string, lines: string[]) {
+    const MAX_LEN = 3500; // conservative under Telegram 4096
+    let chunk: string[] = [header];
+    let length = header.length;
+    for (const line of lines) {
+      if (length + line.length + 1 > MAX_LEN) {
+        await this.bot.sendMessage(chatId, chunk.join('\n'));
+        chunk = [];
+        length = 0;
+      }
+      chunk.push(line);
+      length += line.length + 1;
+    }
+    if (chunk.length) await this.bot.sendMessage(chatId, chunk.join('\n'));
+  }
+
+  /**
+   * A batch row's recipient as typed, followed by the resolved address when they differ
+   */
+  private formatBatchRecipient(t: PlannedTransfer): string {
+    return t.recipient === t.toAddress ? t.toAddress : `${t.recipient} (${t.toAddress})`;
+  }
+
+  /**
+   * Validates a batch of "address,amount,token" rows and asks to confirm it. Invalid rows or missing funds
+   * refuse the whole batch, so a payroll is never sent half-checked.
+   */
+  private async startBatchSend(chatId: number, userId: bigint, walletRef: string, text: string) {
+    const wallet = walletRef
+      ? await this.walletService.findUserWallet(userId, walletRef)
+      : await this.walletService.getPrimaryWallet(userId);
+    if (!wallet) {
+      await this.bot.sendMessage(chatId, walletRef ? `Wallet "${walletRef}" not found. Use /wallets to see your wallets.` : 'No primary wallet found. Use "create wallet" first.');
+      return;
+    }
+
+    await this.bot.sendMessage(chatId, 'Checking rows...');
+    let plan: BatchSendPlan;
+    try {
+      plan = await this.batchSendService.prepare(userId, wallet, text);
+    } catch (e: any) {
+      await this.bot.sendMessage(chatId, `Could not check the batch: ${e?.message || e}`);
+      return;
+    }
+
+    if (plan.errors.length) {
+      await this.sendLines(chatId, `❌ ${plan.errors.length} row(s) need fixing. Nothing was sent:`, [
+        ...plan.errors.map(e => e.line ? `line ${e.line}: ${e.text}\n   ${e.error}` : e.error),
+        '',
+        'Fix them and send the whole batch again.',
+      ]);
+      return;
+    }
+    if (!plan.preview || plan.transfers.length === 0) {
+      await this.bot.sendMessage(chatId, 'No rows found. Use one "address,amount,token" row per line.');
+      return;
+    }
+    if (plan.shortfalls.length) {
+      await this.bot.sendMessage(chatId, [`❌ Not enough funds in ${wallet.wallet_name}. Nothing was sent:`, ...plan.shortfalls.map(s => `• ${s}`)].join('\n'));
+      return;
+    }
+
+    const SHOWN_ROWS = 15;
+    const { preview } = plan;
+    const rows = plan.transfers.slice(0, SHOWN_ROWS).map(t => `line ${t.line}: ${t.amount} ${t.symbol} → ${this.formatBatchRecipient(t)}`);
+    const lines = [
+      `You are about to send ${plan.transfers.length} transfers in ${preview.transactionCount} transaction(s).`,
+      '',
+      'Totals:',
+      ...plan.totals.map(t => `• ${t.amount} ${t.symbol} (balance ${t.balance})`),
+      preview.newTokenAccounts
+        ? `New recipient token accounts: ${preview.newTokenAccounts} (~${preview.accountRentSol.toFixed(6)} SOL rent, paid by you)`
+        : 'New recipient token accounts: none',
+      `Network fees: ~${preview.networkFeeSol.toFixed(6)} SOL`,
+      `Total SOL needed: ~${plan.solNeeded.toFixed(6)} of ${plan.solBalance} SOL`,
+      '',
+      ...rows,
+      ...(plan.transfers.length > SHOWN_ROWS ? [`...and ${plan.transfers.length - SHOWN_ROWS} more`] : []),
+    ];
+    await this.askToConfirm(chatId, userId, {
+      type: 'batch_send',
+      payload: {
+        walletId: wallet.id,
+        walletName: wallet.wallet_name,
+        transfers: plan.transfers,
+        totals: plan.totals.map(({ symbol, mint, amount }) => ({ symbol, mint, amount })),
+        transactionCount: preview.transactionCount,
+      },
+    }, lines.join('\n'));
+  }
+
+  /**
+   * Reads what a wallet still holds, e.g. "0.5 SOL, 120 USDC". Null (after telling the user) when the RPC fails.
+   */
+  private async getWalletHoldings(chatId: number, userId: bigint, wallet: Wallet): Promise<{ empty: boolean; summary: string } | null> {
+    try {
+      const pf = await this.portfolioService.getPortfolio(userId, wallet.id);
+      const parts = [...(pf.sol > 0 ? [`${pf.sol} SOL`] : []), ...pf.tokens.map(t => `${t.amount} ${t.symbol}`)];
+      return { empty: parts.length === 0, summary: parts.join(', ') || 'nothing' };
+    } catch (e: any) {
+      await this.bot.sendMessage(chatId, `Could not read the balance of ${wallet.wallet_name}: ${e?.message || e}. Nothing was changed.`);
+      return null;
+    }
+  }
+
+  /**
+   * Runs a confirmed action that has already been taken out of the session. Resolves with the signature of a send
+   * or swap, or the ID of the limit order or DCA plan created; null when nothing was executed.
+   */
+  private async executePendingAction(chatId: number, userId: bigint, pending: { type: PendingActionType; payload: any; quote?: SwapQuote }): Promise<string | null> {
+    let executedSignature: string | null = null;
+    try {
+      // Amounts typed in USD/NGN must still convert to about the confirmed token amount
+      const fiat = pending.payload?.fiat as FiatConversion | undefined;
+      if (fiat) {
+        const check = await this.fiatAmounts.recheck(fiat);
+        if (!check.ok) {
+          await this.bot.sendMessage(chatId, `❌ Aborted: ${formatFiat(fiat)} is now ${check.fresh.tokenAmount} ${fiat.token.toUpperCase()} instead of ${fiat.tokenAmount} (${check.driftPct.toFixed(2)}% change, more than the ${check.tolerancePct}% allowed). Nothing was executed; send the command again.`);
+          return null;
+        }
+      }
+
+      if (pending.type === 'send' && pending.payload?.mint) {
+        const { amount, toAddress, mint, symbol, walletId, walletName } = pending.payload as { amount: number; toAddress: string; mint: string; symbol: string; walletId?: string; walletName?: string };
+        await this.bot.sendMessage(chatId, `Sending ${amount} ${symbol} to ${toAddress.slice(0,6)}...${toAddress.slice(-6)} from ${walletName || 'your primary wallet'}...`);
+        const { signature } = walletId
+          ? await this.walletService.sendTokenFromWallet(walletId, userId, toAddress, amount, mint, { metadata: { symbol } })
+          : await this.walletService.sendTokenFromPrimary(userId, toAddress, amount, mint, { metadata: { symbol } });
+        executedSignature = signature;
+        const explorer = process.env.SOLANA_CLUSTER === 'devnet'
+          ? `https://solscan.io/tx/${signature}?cluster=devnet`
+          : `https://solscan.io/tx/${signature}`;
+        await this.bot.sendMessage(chatId, `✅ Sent ${amount} ${symbol}\nSignature: ${signature}\nExplorer: ${explorer}`);
+      } else if (pending.type === 'send') {
+        const { amount, toAddress, walletId, walletName } = pending.payload as { amount: number; toAddress: string; walletId?: string; walletName?: string };
+        await this.bot.sendMessage(chatId, `Sending ${amount} SOL to ${toAddress.slice(0,6)}...${toAddress.slice(-6)} from ${walletName || 'your primary wallet'}...`);
+        const { signature } = walletId
+          ? await this.walletService.sendSolFromWallet(walletId, userId, toAddress, amount)
+          : await this.walletService.sendSolFromPrimary(userId, toAddress, amount);
+        executedSignature = signature;
+        const explorer = process.env.SOLANA_CLUSTER === 'devnet'
+          ? `https://solscan.io/tx/${signature}?cluster=devnet`
+          : `https://solscan.io/tx/${signature}`;
+        await this.bot.sendMessage(chatId, `✅ Sent ${amount} SOL\nSignature: ${signature}\nExplorer: ${explorer}`);
+      } else if (pending.type === 'swap') {
+        const payload: any = pending.payload;
+        // The requoted route is the one executed, so the check covers what actually lands
+        let checkedQuote: any;
+        if (pending.quote) {
+          const check = await this.swapService.requote(pending.quote);
+          checkedQuote = check.quote.response;
+          if (!check.ok) {
+            await this.bot.sendMessage(chatId, `❌ Swap aborted: the price moved. Expected output fell ${check.dropPct.toFixed(2)}% (from ~${pending.quote.outAmount} to ~${check.quote.outAmount} ${check.quote.outputSymbol}), more than the ${check.tolerancePct}% allowed. Nothing was executed; send the command again for a new quote.`);
+            return null;
+          }
+        }
+        if (payload && payload.token) {
+          const { amount, token, slippageBps, walletId } = payload as { amount: number; token: string; slippageBps?: number; walletId?: string };
+          await this.bot.sendMessage(chatId, `Swapping ${amount} SOL to ${token}...`);
+          const { signature } = walletId
+            ? await this.swapService.swapSolToTokenFromWallet(walletId, userId, amount, token, slippageBps, undefined, checkedQuote)
+            : await this.swapService.swapSolToToken(userId, amount, token, slippageBps, undefined, checkedQuote);
+          executedSignature = signature;
+          const explorer = process.env.SOLANA_CLUSTER === 'devnet'
+            ? `https://solscan.io/tx/${signature}?cluster=devnet`
+            : `https://solscan.io/tx/${signature}`;
+          await this.bot.sendMessage(chatId, `✅ Swap executed\nSignature: ${signature}\nExplorer: ${explorer}`);
+        } else if (payload && payload.from && payload.to) {
+          const { amount, from, to, slippageBps, walletId } = payload as { amount: number; from: string; to: string; slippageBps?: number; walletId?: string };
+          await this.bot.sendMessage(chatId, `Swapping ${amount} ${from.toUpperCase()} to ${to.toUpperCase()}...`);
+          const { signature } = walletId
+            ? await this.swapService.swapTokenToTokenFromWallet(walletId, userId, amount, from, to, slippageBps, undefined, checkedQuote)
+            : await this.swapService.swapTokenToToken(userId, amount, from, to, slippageBps, undefined, checkedQuote);
+          executedSignature = signature;
+          const explorer = process.env.SOLANA_CLUSTER === 'devnet'
+            ? `https://solscan.io/tx/${signature}?cluster=devnet`
+            : `https://solscan.io/tx/${signature}`;
+          await this.bot.sendMessage(chatId, `✅ Swap executed\nSignature: ${signature}\nExplorer: ${explorer}`);
+        } else {
+          await this.bot.sendMessage(chatId, 'Could not parse pending swap payload. Please re-issue the swap command.');
+        }
+      } else if (pending.type === 'limit_order') {
+        const { side, token, quoteToken, amount, condition, triggerPrice } = pending.payload as { side: 'buy'|'sell'; token: string; quoteToken: string; amount: number; condition: 'below'|'above'; triggerPrice: number };
+        const order = await this.limitOrderService.createOrder({ userId, chatId, side, token, quoteToken, amount, condition, triggerPrice });
+        executedSignature = order.id;
+        const op = order.trigger_condition === 'below' ? '<' : '>';
+        await this.bot.sendMessage(chatId, `✅ Limit order placed\n${order.side.toUpperCase()} ${order.amount} ${order.input_symbol} → ${order.output_symbol} when ${order.watch_symbol} ${op} $${order.trigger_price}\nID: ${order.id}\nUse /orders to view or /cancel_order to cancel.`);
+      } else if (pending.type === 'dca') {
+        const { amount, from, to, cadence, endAt } = pending.payload as { amount: number; from: string; to: string; cadence: string; endAt?: string };
+        const plan = await this.dcaService.createPlan({ userId, chatId, inputToken: from, outputToken: to, amount, cadence, endAt: endAt ? new Date(endAt) : undefined });
+        executedSignature = plan.id;
+        await this.bot.sendMessage(chatId, `✅ DCA plan created\n${plan.amount} ${plan.input_symbol} → ${plan.output_symbol}, ${plan.cadence}${plan.end_at ? ` until ${String(plan.end_at).slice(0, 10)}` : ''}\nThe first leg runs within a minute.\nID: ${plan.id}\nUse /dca_list to view or /dca_cancel to stop it.`);
+      } else if (pending.type === 'sweep') {
+        const { walletId, walletName, toAddress, toWalletName } = pending.payload as { walletId: string; walletName: string; toAddress: string; toWalletName: string };
+        await this.bot.sendMessage(chatId, `Sweeping ${walletName} into ${toWalletName}...`);
+        const result = await this.walletService.sweepWallet(walletId, userId, toAddress);
+        executedSignature = result.signatures[result.signatures.length - 1] || null;
+        await this.bot.sendMessage(chatId, executedSignature
+          ? `✅ Swept ${result.tokensMoved} token(s) and ${result.solMoved} SOL from ${walletName} to ${toWalletName}.\nSignatures:\n${result.signatures.join('\n')}`
+          : `${walletName} had nothing to sweep.`);
+      } else if (pending.type === 'batch_send') {
+        const { walletId, walletName, transfers, transactionCount } = pending.payload as { walletId: string; walletName: string; transfers: PlannedTransfer[]; transactionCount: number };
+        await this.bot.sendMessage(chatId, `Sending ${transfers.length} transfers from ${walletName} in ${transactionCount} transaction(s)...`);
+        const outcomes = await this.walletService.sendBatchFromWallet(walletId, userId, transfers.map(({ toAddress, amount, mint, decimals }) => ({ toAddress, amount, mint, decimals })));
+        const sent = outcomes.filter(o => o.ok);
+        executedSignature = sent[0]?.signature || null;
+        const lines = outcomes.map(o => {
+          const t = transfers[o.index];
+          const row = `line ${t.line}: ${t.amount} ${t.symbol} → ${this.formatBatchRecipient(t)}`;
+          if (o.ok) return `✅ ${row}\n   ${o.signature}`;
+          return `❌ ${row}\n   ${o.error}${o.signature ? `\n   Check ${o.signature} before resending: it may still land.` : ''}`;
+        });
+        const failed = outcomes.length - sent.length;
+        await this.sendLines(chatId, `${failed ? '⚠️' : '✅'} Batch finished: ${sent.length} sent, ${failed} failed.`, [
+          ...lines,
+          ...(failed ? ['', 'Only the failed rows need resending: run /batch_send again with just those rows.'] : []),
+        ]);
+      } else if (pending.type === 'offramp') {
+        const { amount, bankAccountId, mint, currency, walletId } = pending.payload as { amount: number; bankAccountId: string; mint: string; currency: string; walletId?: string };
+        const pajToken = process.env.PAJ_TOKEN;
+        if (!pajToken) {
+          await this.bot.sendMessage(chatId, 'PAJ token not configured.');
+          return null;
+        }
+
+        await this.bot.sendMessage(chatId, 'Creating offramp order...');
+
+        // Use saved bank account details to create the order (bank id + account number)
+        const allAccounts = await this.offrampService.getUserBankAccounts(pajToken);
+        const chosenAccount = allAccounts.find(a => a.id === bankAccountId);
+        if (!chosenAccount) {
+          await this.bot.sendMessage(chatId, 'Saved bank account not found.');
+          return null;
+        }
+
+        // Determine bankId: saved account may store bank name rather than ID
+        let bankIdForOrder = chosenAccount.bank as unknown as string;
+        const isMongoId = /^[a-f0-9]{24}$/i.test(bankIdForOrder || '');
+        if (!isMongoId) {
+          try {
+            const banks = await this.offrampService.getBanks();
+            const byExact = banks.find(b => (b.name || '').toLowerCase() === (bankIdForOrder || '').toLowerCase());
+            const byContains = byExact || banks.find(b => (b.name || '').toLowerCase().includes((bankIdForOrder || '').toLowerCase()));
+            if (byContains && byContains.id) bankIdForOrder = byContains.id;
+          } catch {}
+        }
+        if (!/^[a-f0-9]{24}$/i.test(bankIdForOrder || '')) {
+          await this.bot.sendMessage(chatId, 'Unable to resolve bank ID for the selected account. Please try again or re-add the bank account.');
+          return null;
+        }
+
+        const orderRequest = {
+          bank: bankIdForOrder,
+          accountNumber: chosenAccount.accountNumber,
+          currency,
+          amount,
+          mint
+        } as any;
+
+        const orders = await this.offrampService.createOfframpOrder(pajToken, orderRequest);
+        
+        if (!orders || orders.length === 0) {
+          await this.bot.sendMessage(chatId, '❌ Failed to create offramp order.');
+          return null;
+        }
+
+        const order = orders[0];
+
+        await this.bot.sendMessage(chatId, [
+          '✅ Offramp order created!',
+          '',
+          `Order ID: ${order._id}`,
+          `Expected Amount: ${order.expectedAmount}`,
+          `Status: ${order.status}`,
+          `Send To Address: ${order.address}`,
+          '',
+          'Now sending tokens to offramp address...',
+        ].join('\n'));
+
+        // Send tokens from user's wallet to the order address
+        try {
+          const record = {
+            type: 'offramp' as const,
+            metadata: {
+              orderId: order._id,
+              fiatAmount: order.expectedAmount,
+              currency: order.currency || currency,
+              bank: chosenAccount.bank,
+              accountNumber: `****${String(chosenAccount.accountNumber).slice(-4)}`,
+            },
+          };
+          const { signature } = walletId
+            ? await this.walletService.sendTokenFromWallet(walletId, userId, order.address, amount, mint, record)
+            : await this.walletService.sendTokenFromPrimary(userId, order.address, amount, mint, record);
+          executedSignature = signature;
+
+          const explorer = process.env.SOLANA_CLUSTER === 'devnet'
+            ? `https://solscan.io/tx/${signature}?cluster=devnet`
+            : `https://solscan.io/tx/${signature}`;
+
+          await this.bot.sendMessage(chatId, [
+            '✅ Tokens sent successfully!',
+            '',
+            `Sent: ${amount} tokens to ${order.address}`,
+            `Signature: ${signature}`,
+            `Explorer: ${explorer}`,
+            '',
+            `Order ID: ${order._id}`,
+            `Status: ${order.status}`,
+            '',
+            'Fiat will be sent to your bank account once the transaction is confirmed.',
+          ].join('\n'));
+        } catch (sendError: any) {
+          await this.bot.sendMessage(chatId, `❌ Failed to send tokens: ${sendError?.message || sendError}\n\nOrder created but tokens not sent. Order ID: ${order._id}`);
+        }
+      }
+    } catch (e: any) {
+      const msg = (e?.message || String(e)) as string;
+      if (pending.type === 'offramp') {
+        await this.bot.sendMessage(chatId, `❌ Offramp failed: ${msg}`);
+      } else if (pending.type === 'send') {
+        await this.bot.sendMessage(chatId, `❌ Send failed: ${msg}`);
+      } else if (pending.type === 'limit_order') {
+        await this.bot.sendMessage(chatId, `❌ Failed to place limit order: ${msg}`);
+      } else if (pending.type === 'dca') {
+        await this.bot.sendMessage(chatId, `❌ Failed to create DCA plan: ${msg}`);
+      } else if (pending.type === 'sweep') {
+        await this.bot.sendMessage(chatId, `❌ Sweep failed: ${msg}\nAnything already moved is listed in /history; run /sweep_wallet again to move the rest.`);
+      } else if (pending.type === 'batch_send') {
+        await this.bot.sendMessage(chatId, `❌ Batch send failed: ${msg}\nCheck /history for any transfers that went out before resending.`);
+      } else if (pending.type === 'swap') {
+        // Shorten noisy errors
+        if (/Simulation failed/i.test(msg) || /SendTransactionError/i.test(msg)) {
+          await this.bot.sendMessage(chatId, '❌ Swap failed. Likely insufficient SOL for fees or route unavailable. Top up a small amount of SOL (e.g., 0.005) and try again.');
+        } else if (/Insufficient/i.test(msg)) {
+          await this.bot.sendMessage(chatId, `❌ Swap failed: ${msg}`);
+        } else {
+          await this.bot.sendMessage(chatId, '❌ Swap failed. Please try again shortly.');
+        }
+      } else {
+        await this.bot.sendMessage(chatId, `❌ Action failed: ${msg}`);
+      }
+    }
+    return executedSignature;
+  }
+
+  /**
+   * Resolves the slippage for a swap command: a "slippage 3%" override in `text`, else the user's preference.
+   * Returns null (after telling the user) when the override is out of range or the risk tolerance refuses the swap.
+   */
+  private async resolveSwapSlippage(chatId: number, userId: bigint, outputToken: string, text = ''): Promise<{ slippageBps: number; warning?: string } | null> {
+    const m = text.match(/\bslippage\s*:?\s*(\d+(?:\.\d+)?)\s*%?/i);
+    let slippageBps: number;
+    if (m) {
+      const pct = Number(m[1]);
+      if (!(pct >= 0.01 && pct <= 50)) {
+        await this.bot.sendMessage(chatId, 'Slippage must be between 0.01% and 50%. Example: swap 1 SOL to WIF slippage 3%');
+        return null;
+      }
+      slippageBps = Math.round(pct * 100);
+    } else {
+      slippageBps = await this.swapService.getPreferredSlippageBps(userId);
+    }
+
+    try {
+      const risk = await this.riskService.checkSwap(userId, outputToken, slippageBps);
+      if (!risk.allowed) {
+        await this.bot.sendMessage(chatId, `🛡️ Swap refused: ${risk.reason}\nChange your risk tolerance or slippage in /settings if you want to proceed.`);
+        return null;
+      }
+      return { slippageBps, warning: risk.warning };
+    } catch (error) {
+      console.error('Error checking swap risk:', error);
+      return { slippageBps, warning: 'Could not run the risk check for this token.' };
+    }
+  }
+
+  /**
+   * Checks fees, slippage and risk for a swap from `source` (default: the primary wallet), then auto-approves it or
+   * asks for confirmation with a quote preview. `note` explains how the amount was derived, e.g. "50% of your 1200 WIF";
+   * `fiat` is kept with the action so the conversion can be checked again at execution.
+   */
+  private async proposeSwap(
+    chatId: number,
+    userId: bigint,
+    text: string,
+    amount: number,
+    fromTk: string,
+    toTk: string,
+    options: { note?: string; fiat?: FiatConversion; source?: Wallet | null } = {}
+  ) {
+    const { note, fiat, source } = options;
+    // Pre-confirmation fee check (require fee buffer if input is not SOL too)
+    const FEE_BUFFER_SOL = Number(process.env.SWAP_FEE_BUFFER_SOL || '0.003');
+    const wallet = source || await this.walletService.getPrimaryWallet(userId);
+    if (!wallet) {
+      await this.bot.sendMessage(chatId, 'No primary wallet found. Use "create wallet" first.');
+      return;
+    }
+    const solBal = await this.walletService.updateWalletBalance(wallet.id);
+    const fromIsSol = fromTk.toLowerCase() === 'sol';
+    const needSol = fromIsSol ? (amount + FEE_BUFFER_SOL) : FEE_BUFFER_SOL;
+    if (solBal < needSol) {
+      const topUp = (needSol - solBal);
+      await this.bot.sendMessage(chatId, `You need ~${needSol.toFixed(6)} SOL for fees${fromIsSol ? ' (and amount)' : ''}. You have ${solBal.toFixed(6)} SOL. Top up ~${topUp.toFixed(6)} SOL, then try again.`);
+      return;
+    }
+    const slippage = await this.resolveSwapSlippage(chatId, userId, toTk, text);
+    if (!slippage) return;
+    const payload = fromIsSol ? { amount, token: toTk } : { amount, from: fromTk, to: toTk };
+    const sourceOpts = source ? { walletId: source.id, walletName: source.wallet_name } : {};
+    const pending: GuardedAction = { type: 'swap', payload: { ...payload, slippageBps: slippage.slippageBps, fiat, ...sourceOpts } };
+    if (await this.tryAutoApprove(chatId, userId, pending)) return;
+    const quote = await this.previewQuote(chatId, fromTk, toTk, amount, slippage.slippageBps);
+    if (!quote) return;
+    await this.askToConfirm(chatId, userId, { ...pending, quote }, [
+      `You are about to swap ${amount} ${quote.inputSymbol} to ${quote.outputSymbol}${note ? ` (${note})` : ''}.`,
+      ...formatQuotePreview(quote),
+      ...(slippage.warning ? [`⚠️ ${slippage.warning}`] : []),
+    ].join('\n'));
+  }
+
+  /**
+   * Runs a small send or swap without the confirm step when the user's auto-approve preferences allow it,
+   * then sends a review message. Returns false when the action still needs a normal confirmation.
+   */
+  private async tryAutoApprove(chatId: number, userId: bigint, pending: GuardedAction): Promise<boolean> {
+    let decision: AutoApproveDecision;
+    try {
+      decision = await this.actionGuard.checkAutoApprove(userId, pending);
+    } catch (error) {
+      console.error('Error checking auto-approve:', error);
+      return false;
+    }
+    if (decision.reason === 'daily_cap') {
+      await this.bot.sendMessage(chatId, `Auto-approve skipped: ${decision.usedTodaySol!.toFixed(4)} of your ${decision.dailyCapSol} SOL daily cap is used.`);
+    }
+    if (!decision.approved || decision.valueSol === undefined || !decision.reservationId) return false;
+
+    const signature = await this.executePendingAction(chatId, userId, pending);
+    if (!signature) {
+      await this.actionGuard.releaseAutoApproval(decision.reservationId).catch((error) => {
+        console.error('Error releasing auto-approve reservation:', error);
+      });
+      return true;
+    }
+
+    const used = (decision.usedTodaySol || 0) + decision.valueSol;
+    await this.bot.sendMessage(chatId, [
+      '⚡ Auto-approved (no confirmation asked)',
+      `Action: ${this.describeAction(pending)}`,
+      `Value: ~${decision.valueSol.toFixed(4)} SOL (limit ${decision.maxSol} SOL per action)`,
+      `Used today: ${used.toFixed(4)} of ${decision.dailyCapSol} SOL`,
+      `Signature: ${signature}`,
+      '',
+      'Not you? Run /auto_approve off and review /history.',
+    ].join('\n'));
+    return true;
+  }
+
+  private guardLabel(type: GuardedAction['type']): string {
+    return { send: 'send', swap: 'swap', offramp: 'offramp', batch_send: 'batch send', limit_order: 'limit order', dca: 'DCA leg' }[type];
+  }
+
+  /**
+   * Asks for the password or PIN before a high-value action runs. The action is dropped on a wrong answer.
+   */
+  private async confirmWithSecret(chatId: number, userId: bigint, pending: GuardedAction & { quote?: SwapQuote }, usd: number | null): Promise<string | null> {
+    if (await this.actionGuard.isLockedOut(userId)) {
+      await this.bot.sendMessage(chatId, `🔒 Too many wrong passwords or PINs. High-value actions are locked for up to ${this.actionGuard.getLockoutMinutes()} minutes. The action was cancelled.`);
+      return null;
+    }
+
+    const value = usd === null ? 'an amount I could not price' : `~$${usd.toFixed(2)}`;
+    let answer: string;
+    try {
+      answer = await this.promptSecret(chatId, userId, `🔐 This ${this.guardLabel(pending.type)} is worth ${value}. Reply with your password or PIN to confirm:`);
+    } catch (err) {
+      if (err instanceof PromptCancelledError) return null;
+      throw err;
+    }
+
+    const check = await this.actionGuard.verifySecret(userId, answer, { action: pending.type, usd });
+    if (!check.ok) {
+      await this.bot.sendMessage(chatId, check.attemptsLeft > 0
+        ? `❌ Wrong password or PIN. The ${this.guardLabel(pending.type)} was cancelled. ${check.attemptsLeft} attempt(s) left.`
+        : `🔒 Wrong password or PIN. High-value actions are now locked for up to ${this.actionGuard.getLockoutMinutes()} minutes.`);
+      return null;
+    }
+
+    return this.executePendingAction(chatId, userId, pending);
+  }
+
+  /**
+   * Saves the action as pending under a fresh ID and sends `text` with Confirm/Cancel buttons bound to that ID
+   */
+  private async askToConfirm(chatId: number, userId: bigint, pending: { type: PendingActionType; payload: any; quote?: SwapQuote }, text: string) {
+    const action = await this.pendingActions.create(userId, chatId, pending);
+    const ttlMinutes = Math.round(this.pendingActions.getTtlSeconds() / 6) / 10;
+    const fromWallet = pending.payload?.walletName ? `\nFrom wallet: ${pending.payload.walletName}` : '';
+    const sent = await this.bot.sendMessage(chatId, `${text}${fromWallet}\n\n⏱ Expires in ${ttlMinutes} min.`, {
+      reply_markup: {
+        inline_keyboard: [[
+          { text: '✅ Confirm', callback_data: `confirm:${action.id}:yes` },
+          { text: '❎ Cancel', callback_data: `confirm:${action.id}:no` },
+        ]],
+      },
+    });
+    await this.pendingActions.attachMessage(userId, action.id, sent.message_id);
+  }
+
+  /**
+   * Fetches the quote shown before a swap is confirmed. Returns null (after telling the user) when there is none.
+   */
+  private async previewQuote(chatId: number, inputToken: string, outputToken: string, amount: number, slippageBps: number): Promise<SwapQuote | null> {
+    try {
+      return await this.swapService.getQuote(inputToken, outputToken, amount, slippageBps);
+    } catch (e: any) {
+      await this.bot.sendMessage(chatId, `Could not get a quote for this swap: ${e?.message || e}`);
+      return null;
+    }
+  }
+
+  /**
+   * Handles a Confirm/Cancel tap. Only the pending action carrying the tapped ID runs, and only once;
+   * the original message is edited to show the outcome.
+   */
+  private async handleConfirmCallback(query: TelegramBot.CallbackQuery, chatId: number, messageId: number) {
+    const [, actionId, choice] = query.data!.split(':');
+    const userId = BigInt(query.from.id);
+    const original = query.message?.text || '';
+    const finish = (status: string) => this.bot.editMessageText(`${original}\n\n${status}`, { chat_id: chatId, message_id: messageId }).catch(() => {});
+
+    if (!actionId || this.tappedActionIds.has(actionId)) return;
+    this.tappedActionIds.add(actionId);
+    try {
+      // Taking the action removes it from the session, so no other tap or typed reply can run it
+      const taken = await this.pendingActions.take(userId, actionId);
+      if (taken.status === 'missing') {
+        // In groups the tap may come from someone else, so leave the owner's message alone
+        if (query.message?.chat.type === 'private') await finish('⌛ This confirmation is no longer valid or was already handled.');
+        return;
+      }
+      if (taken.status === 'expired') {
+        await finish('⌛ Expired, nothing was executed. Send the command again for a fresh quote.');
+        return;
+      }
+      const pending = taken.action;
+      if (choice !== 'yes') {
+        await finish('❎ Cancelled.');
+        return;
+      }
+
+      await finish('⏳ Confirmed, executing...');
+      let result: string | null = null;
+      if (['send', 'swap', 'offramp', 'batch_send', 'limit_order', 'dca'].includes(pending.type)) {
+        const guarded = pending as GuardedAction & { quote?: SwapQuote };
+        const guard = await this.actionGuard.evaluate(userId, guarded);
+        if (guard.required) {
+          result = await this.confirmWithSecret(chatId, userId, guarded, guard.usd);
+          await finish(result ? '✅ Confirmed and executed.' : '❌ Not executed. See the messages below.');
+          return;
+        }
+        if (guard.blocked) {
+          const value = guard.usd === null ? 'could not be priced' : `is worth ~$${guard.usd.toFixed(2)}`;
+          await this.bot.sendMessage(chatId, `🔐 This ${this.guardLabel(guarded.type)} ${value}. Actions over $${guard.thresholdUsd} need a password or PIN, and you have not set one. Set one with /set_password or /set_pin, then send the command again.`);
+          await finish('❌ Not executed. See the message below.');
+          return;
+        }
+      }
+      result = await this.executePendingAction(chatId, userId, pending);
+      await finish(result ? '✅ Confirmed and executed.' : '❌ Not executed. See the messages below.');
+    } finally {
+      this.tappedActionIds.delete(actionId);
+    }
+  }
+
+  /**
+   * Sends a force-reply prompt and resolves with `userId`'s reply to it; replies from anyone else are ignored.
+   * Rejects with PromptCancelledError when no reply arrives in time or the user sends a command instead.
+   * The reply never reaches the NL handlers. For a `secret` prompt the user's next message counts as the
+   * answer even when it is not a reply, so a password typed without replying is never parsed as a command.
+   */
+  private async awaitReply(chatId: number, userId: bigint, text: string, secret = false): Promise<TelegramBot.Message> {
+    const prompt = await this.bot.sendMessage(chatId, text, {
+      reply_markup: { force_reply: true, selective: true },
+    });
+    this.replyPromptIds.add(prompt.message_id);
+    const secretKey = `${chatId}:${userId}`;
+    if (secret) this.secretPrompts.set(secretKey, (this.secretPrompts.get(secretKey) || 0) + 1);
+
+    return new Promise((resolve, reject) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.bot.removeListener('message', replyListener);
+        this.replyPromptIds.delete(prompt.message_id);
+        if (secret) {
+          const open = (this.secretPrompts.get(secretKey) || 1) - 1;
+          if (open > 0) this.secretPrompts.set(secretKey, open);
+          else this.secretPrompts.delete(secretKey);
+        }
+      };
+      const cancel = async (notice: string) => {
+        done();
+        await this.bot.sendMessage(chatId, notice).catch(() => undefined);
+        reject(new PromptCancelledError(notice));
+      };
+      const replyListener = (answerMsg: TelegramBot.Message) => {
+        if (answerMsg.chat.id !== chatId || !answerMsg.from || BigInt(answerMsg.from.id) !== userId) return;
+        if ((answerMsg.text || '').startsWith('/')) {
+          void cancel('❎ Cancelled.');
+          return;
+        }
+        if (answerMsg.reply_to_message?.message_id !== prompt.message_id && !(secret && answerMsg.text)) return;
+        done();
+        resolve(answerMsg);
+      };
+      const timer = setTimeout(() => void cancel(`⌛ No reply within ${REPLY_TIMEOUT_MS / 60000} minutes. Cancelled.`), REPLY_TIMEOUT_MS);
+      this.bot.on('message', replyListener);
+    });
+  }
+
+  /**
+   * Like awaitReply, resolving with the reply text. Secret replies are also deleted from the chat.
+   */
+  private async promptReply(chatId: number, userId: bigint, text: string, secret = false): Promise<string> {
+    const answerMsg = await this.awaitReply(chatId, userId, text, secret);
+    if (secret) {
+      await this.bot.deleteMessage(chatId, answerMsg.message_id).catch(async () => {
+        await this.bot.sendMessage(chatId, '⚠️ I could not delete your message. Please delete it yourself now.');
+      });
+    }
+    return (answerMsg.text || '').trim();
+  }
+
+  private promptSecret(chatId: number, userId: bigint, text: string): Promise<string> {
+    return this.promptReply(chatId, userId, text, true);
+  }
+
+  /**
+   * Before a password or PIN is changed, asks for the current one (if any) under the same lockout
+   */
+  private async verifyCurrentSecret(chatId: number, userId: bigint): Promise<boolean> {
+    const hasSecret = (await this.userService.hasPassword(userId)) || (await this.userService.hasPin(userId));
+    if (!hasSecret) return true;
+
+    if (await this.actionGuard.isLockedOut(userId)) {
+      await this.bot.sendMessage(chatId, `🔒 Too many wrong passwords or PINs. Try again in up to ${this.actionGuard.getLockoutMinutes()} minutes.`);
+      return false;
+    }
+    let answer: string;
+    try {
+      answer = await this.promptSecret(chatId, userId, 'Enter your current password or PIN:');
+    } catch (err) {
+      if (err instanceof PromptCancelledError) return false;
+      throw err;
+    }
+    const check = await this.actionGuard.verifySecret(userId, answer, { action: 'change_secret' });
+    if (!check.ok) {
+      await this.bot.sendMessage(chatId, check.attemptsLeft > 0
+        ? `❌ Wrong password or PIN. ${check.attemptsLeft} attempt(s) left.`
+        : `🔒 Wrong password or PIN. Locked for up to ${this.actionGuard.getLockoutMinutes()} minutes.`);
+    }
+    return check.ok;
+  }
+
+  /**
+   * Builds the /settings text and inline keyboard from the stored preferences
+   */
+  private async renderSettings(userId: bigint): Promise<{ text: string; keyboard: TelegramBot.InlineKeyboardButton[][] } | null> {
+    const [prefs, user] = await Promise.all([
+      this.userService.getUserPreferences(userId),
+      this.userService.getUser(userId),
+    ]);
+    if (!prefs || !user) return null;
+
+    const autoApprove = prefs.auto_approve_small_amounts
+      ? `on, ≤ ${prefs.max_auto_approve_amount} SOL each, ${prefs.auto_approve_daily_cap} SOL/day`
+      : 'off';
+    const text = [
+      '⚙️ Settings',
+      '',
+      `Notifications: ${prefs.notifications_enabled ? 'on' : 'off'}`,
+      `Slippage: ${Number(prefs.preferred_slippage)}%`,
+      `Risk tolerance: ${prefs.risk_tolerance}`,
+      `Auto-approve: ${autoApprove}`,
+      `Timezone: ${user.timezone || 'UTC'}`,
+      `Language: ${user.language_code || 'en'}`,
+    ].join('\n');
+    const keyboard: TelegramBot.InlineKeyboardButton[][] = [
+      [{ text: `🔔 Notifications: ${prefs.notifications_enabled ? 'on' : 'off'}`, callback_data: 'settings:notif' }],
+      [
+        { text: `Slippage ${Number(prefs.preferred_slippage)}%`, callback_data: 'settings:slip' },
+        { text: `Risk: ${prefs.risk_tolerance}`, callback_data: 'settings:risk' },
+      ],
+      [
+        { text: `⚡ Auto-approve: ${prefs.auto_approve_small_amounts ? 'on' : 'off'}`, callback_data: 'settings:auto' },
+        { text: 'Auto-approve limits', callback_data: 'settings:limits' },
+      ],
+      [
+        { text: `🕒 ${user.timezone || 'UTC'}`, callback_data: 'settings:tz' },
+        { text: `🌐 ${user.language_code || 'en'}`, callback_data: 'settings:lang' },
+      ],
+      [{ text: 'Done', callback_data: 'settings:close' }],
+    ];
+    return { text, keyboard };
+  }
+
+  /**
+   * Sends the settings menu, or redraws it in place when `messageId` is given
+   */
+  private async showSettings(chatId: number, userId: bigint, messageId?: number) {
+    const view = await this.renderSettings(userId);
+    if (!view) {
+      await this.bot.sendMessage(chatId, 'No settings found yet. Run /start first.');
+      return;
+    }
+    if (messageId) {
+      await this.bot.editMessageText(view.text, {
+        chat_id: chatId,
+        message_id: messageId,
+        reply_markup: { inline_keyboard: view.keyboard },
+      }).catch(() => {}); // "message is not modified" when nothing changed
+      return;
+    }
+    await this.bot.sendMessage(chatId, view.text, { reply_markup: { inline_keyboard: view.keyboard } });
+  }
+
+  /**
+   * Handles taps on the /settings keyboard. Callback data is `settings:<field>[:<value>]`.
+   */
+  private async handleSettingsCallback(query: TelegramBot.CallbackQuery, chatId: number, messageId: number) {
+    const userId = BigInt(query.from.id);
+    const [, field, ...rest] = (query.data || '').split(':');
+    const value = rest.join(':');
+    const choose = async (title: string, options: Array<[string, string]>) => {
+      const buttons = options.map(([label, v]) => ({ text: label, callback_data: `settings:${field}:${v}` }));
+      const rows: TelegramBot.InlineKeyboardButton[][] = [];
+      for (let i = 0; i < buttons.length; i += 3) rows.push(buttons.slice(i, i + 3));
+      rows.push([{ text: '⬅️ Back', callback_data: 'settings:back' }]);
+      await this.bot.editMessageText(title, { chat_id: chatId, message_id: messageId, reply_markup: { inline_keyboard: rows } });
+    };
+
+    const prefs = await this.userService.getUserPreferences(userId);
+    if (!prefs) {
+      await this.bot.sendMessage(chatId, 'No settings found yet. Run /start first.');
+      return;
+    }
+
+    switch (field) {
+      case 'notif':
+        await this.userService.updateUserPreferences(userId, { notifications_enabled: !prefs.notifications_enabled });
+        break;
+      case 'slip':
+        if (!value) {
+          await choose('Max slippage for swaps:', [['0.5%', '0.5'], ['1%', '1'], ['2%', '2'], ['3%', '3'], ['5%', '5'], ['Custom', 'custom']]);
+          return;
+        }
+        if (value === 'custom') {
+          const answer = await this.promptReply(chatId, userId, 'Enter the max slippage in percent (0.01-50), e.g. 1.5:');
+          await this.userService.updateUserPreferences(userId, { preferred_slippage: Number(answer.replace('%', '')) });
+        } else {
+          await this.userService.updateUserPreferences(userId, { preferred_slippage: Number(value) });
+        }
+        break;
+      case 'risk':
+        if (!value) {
+          await choose('Risk tolerance:', [['Low', 'low'], ['Medium', 'medium'], ['High', 'high']]);
+          return;
+        }
+        await this.userService.updateUserPreferences(userId, { risk_tolerance: value as UserPreferences['risk_tolerance'] });
+        break;
+      case 'auto':
+        // Turning this on weakens confirmations, so it needs the password or PIN when one is set
+        if (!prefs.auto_approve_small_amounts && !(await this.verifyCurrentSecret(chatId, userId))) return;
+        await this.userService.updateUserPreferences(userId, { auto_approve_small_amounts: !prefs.auto_approve_small_amounts });
+        break;
+      case 'limits': {
+        const answer = await this.promptReply(chatId, userId, 'Enter the per-action limit and the daily cap in SOL, e.g. "0.05 0.3":');
+        const [max, cap] = answer.split(/[\s,]+/).map(Number);
+        if (!(max > 0) || !(cap >= max)) {
+          await this.bot.sendMessage(chatId, 'Enter two numbers in SOL; the daily cap must be at least the per-action limit.');
+          return;
+        }
+        if (prefs.auto_approve_small_amounts && (max > Number(prefs.max_auto_approve_amount) || cap > Number(prefs.auto_approve_daily_cap))
+          && !(await this.verifyCurrentSecret(chatId, userId))) return;
+        await this.userService.updateUserPreferences(userId, { max_auto_approve_amount: max, auto_approve_daily_cap: cap });
+        break;
+      }
+      case 'tz':
+        if (!value) {
+          await choose('Timezone:', [
+            ['UTC', 'UTC'], ['Lagos', 'Africa/Lagos'], ['London', 'Europe/London'],
+            ['New York', 'America/New_York'], ['Los Angeles', 'America/Los_Angeles'], ['Singapore', 'Asia/Singapore'],
+            ['Custom', 'custom'],
+          ]);
+          return;
+        }
+        await this.userService.updateUserProfile(userId, {
+          timezone: value === 'custom'
+            ? await this.promptReply(chatId, userId, 'Enter an IANA timezone, e.g. Europe/Berlin:')
+            : value,
+        });
+        break;
+      case 'lang':
+        if (!value) {
+          await choose('Language:', [['English', 'en'], ['Français', 'fr'], ['Español', 'es'], ['Português', 'pt'], ['Deutsch', 'de'], ['Custom', 'custom']]);
+          return;
+        }
+        await this.userService.updateUserProfile(userId, {
+          language_code: value === 'custom'
+            ? (await this.promptReply(chatId, userId, 'Enter a language code, e.g. it or pt-BR:'))
+            : value,
+        });
+        break;
+      case 'close':
+        await this.bot.editMessageReplyMarkup({ inline_keyboard: [] }, { chat_id: chatId, message_id: messageId });
+        return;
+      case 'back':
+        break;
+      default:
+        return;
+    }
+    await this.showSettings(chatId, userId, messageId);
   }
 
   private registerHandlers() {
@@ -63,11 +1349,51 @@ export class TelegramBotRunner {
         'Choose a mode to get started:',
         '- /wallet — Manage wallets: create, balance, send, swap, onramp, offramp',
         '- /research — Token and market research using natural language',
+        '',
+        'Use /settings to change notifications, slippage, risk, auto-approve, timezone and language.',
       ].join('\n');
 
       await this.bot.sendMessage(chatId, text);
     });
 
+    // Preferences menu built from inline keyboards
+    this.bot.onText(/^\/settings$/i, async (msg) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      if (msg.chat.type !== 'private') {
+        await this.bot.sendMessage(chatId, 'Open /settings in a private chat with me.');
+        return;
+      }
+      try {
+        await this.showSettings(chatId, BigInt(from.id));
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to load settings: ${e?.message || e}`);
+      }
+    });
+
+    this.bot.on('callback_query', async (query) => {
+      const chatId = query.message?.chat.id;
+      const messageId = query.message?.message_id;
+      await this.bot.answerCallbackQuery(query.id).catch(() => {});
+      if (!chatId || !messageId || !query.data) return;
+
+      if (query.data.startsWith('settings:')) {
+        try {
+          await this.handleSettingsCallback(query, chatId, messageId);
+        } catch (e: any) {
+          if (!(e instanceof PromptCancelledError)) await this.bot.sendMessage(chatId, `❌ ${e?.message || e}`);
+        }
+      } else if (query.data.startsWith('confirm:')) {
+        try {
+          await this.handleConfirmCallback(query, chatId, messageId);
+        } catch (e: any) {
+          await this.bot.sendMessage(chatId, `❌ ${e?.message || e}`);
+        }
+      }
+    });
+
     // Mode switcher via explicit commands
     this.bot.onText(/^\/(wallet)$/i, async (msg) => {
       const chatId = msg.chat.id;
@@ -82,8 +1408,22 @@ export class TelegramBotRunner {
           '- show all tokens',
           '- USDC balance',
           '- send 0.01 SOL to <address>',
+          '- send 25 USDC to <address>',
+          '- save contact alice <address>',
+          '- send 1 SOL to alice',
+          '- send 0.5 SOL to toly.sol',
+          '- /batch_send (paste address,amount,token rows or upload a CSV)',
+          '- from Trading wallet send 1 SOL to <address>',
           '- swap 0.05 SOL to USDC',
           '- swap 10 USDC to BONK',
+          '- swap 1 SOL to WIF slippage 3%',
+          '- sell 50% of WIF',
+          '- swap half my SOL to USDC',
+          '- buy $20 of JUP',
+          '- send $15 of SOL to <address>',
+          '- buy BONK when price < 0.00002 with 0.5 SOL',
+          '- alert BONK above $0.00003',
+          '- show my transactions',
           '- onramp 2000',
           '- offramp 10  (natural language)',
         ].join('\n'));
@@ -123,7 +1463,7 @@ export class TelegramBotRunner {
           await this.bot.sendMessage(chatId, [
             'Usage:',
             'Minimal: /onramp <fiatAmount> [currency] [mint] [chain] [env]  (recipient = your primary wallet)',
-            'Full:    /onramp <fiatAmount> <currency> <recipient> <mint> [chain] [env]',
+            'Full:    /onramp <fiatAmount> <currency> <recipient> <mint> [chain] [env]  (recipient = address or .sol domain)',
           ].join('\n'));
           return;
         }
@@ -131,12 +1471,14 @@ export class TelegramBotRunner {
         const parts = raw.split(/\s+/);
         if (parts.length >= 4) {
           // Full form
-          const [fiatStr, currency, recipient, mint, chainIn, envIn] = parts;
+          const [fiatStr, currency, recipientIn, mint, chainIn, envIn] = parts;
           const fiatAmount = Number(fiatStr);
-          if (!fiatAmount || fiatAmount <= 0 || !currency || !recipient || !mint) {
+          if (!fiatAmount || fiatAmount <= 0 || !currency || !recipientIn || !mint) {
             await this.bot.sendMessage(chatId, 'Invalid arguments. Usage: /onramp <fiatAmount> <currency> <recipient> <mint> [chain] [env]');
             return;
           }
+          const recipient = isSolDomain(recipientIn) ? await this.resolveDomain(chatId, recipientIn.toLowerCase()) : recipientIn;
+          if (!recipient) return;
           const chain = (chainIn || 'SOLANA').toUpperCase();
           const environment = (envIn || process.env.PAJ_RAMP_ENV || 'staging') as 'staging'|'production';
           initializeSDK(environment);
@@ -145,8 +1487,9 @@ export class TelegramBotRunner {
             await this.bot.sendMessage(chatId, 'Missing PAJ_TOKEN in environment. Please set it in the server .env');
             return;
           }
-          await this.bot.sendMessage(chatId, 'Creating on-ramp order...');
+          await this.bot.sendMessage(chatId, recipient !== recipientIn ? `Creating on-ramp order to ${recipientIn.toLowerCase()} (${recipient})...` : 'Creating on-ramp order...');
           const order = await createOrder({ fiatAmount, currency, recipient, mint, chain, token }) as any;
+          if (msg.from) await this.recordOnrampOrder(BigInt(msg.from.id), order, { fiatAmount, currency, recipient, mint, chain });
           const amountDisp = (order as any)?.fiatAmount ?? (order as any)?.amount ?? fiatAmount;
           const currencyDisp = (order as any)?.currency ?? currency;
           const text = [
@@ -189,6 +1532,7 @@ export class TelegramBotRunner {
         }
         await this.bot.sendMessage(chatId, `Creating on-ramp order to your primary wallet (recipient: ${recipient.slice(0,6)}...${recipient.slice(-6)})...`);
         const order = await createOrder({ fiatAmount, currency, recipient, mint, chain, token }) as any;
+        await this.recordOnrampOrder(userId, order, { fiatAmount, currency, recipient, mint, chain });
         const amountDisp = (order as any)?.fiatAmount ?? (order as any)?.amount ?? fiatAmount;
         const currencyDisp = (order as any)?.currency ?? currency;
         const out = [
@@ -439,27 +1783,18 @@ export class TelegramBotRunner {
           `Bank Account: ${bankAccount.accountName}`,
           `Account Number: ${bankAccount.accountNumber}`,
           `Bank: ${bankAccount.bank}`,
-          '',
-          'Type "confirm offramp" to proceed or "cancel" to abort.',
         ].join('\n');
 
-        // Save pending offramp to session
-        const currentSession = await this.userService.getSession(userId);
-        await this.userService.upsertSession(userId, {
-          ...((currentSession as any)?.session_data || {}),
-          pending: {
-            type: 'offramp',
-            payload: {
-              amount,
-              bankAccountId,
-              mint,
-              currency: curr,
-              calculation
-            }
+        await this.askToConfirm(chatId, userId, {
+          type: 'offramp',
+          payload: {
+            amount,
+            bankAccountId,
+            mint,
+            currency: curr,
+            calculation
           }
-        });
-
-        await this.bot.sendMessage(chatId, confirmationMessage);
+        }, confirmationMessage);
       } catch (e: any) {
         await this.bot.sendMessage(chatId, `Failed to prepare offramp: ${e?.message || e}`);
       }
@@ -468,8 +1803,10 @@ export class TelegramBotRunner {
     // Natural language router based on mode
     this.bot.on('message', async (msg) => {
       if (!msg.text || msg.text.startsWith('/')) return; // ignore commands; handled elsewhere
+      if (msg.reply_to_message && this.replyPromptIds.has(msg.reply_to_message.message_id)) return;
       const chatId = msg.chat.id;
       const from = msg.from; if (!from) return;
+      if (this.secretPrompts.has(`${chatId}:${from.id}`)) return; // answer to an open password, PIN or key prompt
       const userId = BigInt(from.id);
 
       // get current mode (default wallet)
@@ -481,9 +1818,39 @@ export class TelegramBotRunner {
         if (sessionData.mode === 'research') mode = 'research';
       } catch {}
 
-      const textBody = msg.text.trim();
+      let textBody = msg.text.trim();
+
+      // Price / market cap alerts work in every mode: "alert BONK above $0.00003"
+      if (/^\s*alert\s+/i.test(textBody)) {
+        const parsed = this.parseAlertCommand(textBody);
+        if (!parsed) {
+          await this.bot.sendMessage(chatId, 'Usage: alert <token|mint> [price|mcap] <above|below> <usd> [repeat [every 30m]]\nExamples:\n- alert BONK above $0.00003\n- alert mint <address> mcap below 1M repeat every 2h');
+          return;
+        }
+        try {
+          const alert = await this.alertService.createAlert({ userId, chatId, ...parsed });
+          const label = alert.metric === 'mcap' ? 'market cap' : 'price';
+          await this.bot.sendMessage(chatId, `🔔 Alert set: ${alert.token_symbol} ${label} ${alert.alert_condition} $${Number(alert.threshold).toLocaleString(undefined, { maximumSignificantDigits: 6 })}${alert.is_repeating ? ` (repeating, every ${Math.round(Number(alert.cooldown_seconds) / 60)} min at most)` : ' (one-shot)'}\nUse /alerts to view or /alert_cancel to remove.`);
+        } catch (e: any) {
+          await this.bot.sendMessage(chatId, `Failed to set alert: ${e?.message || String(e)}`);
+        }
+        return;
+      }
 
       if (mode === 'wallet') {
+        // Source wallet for sends, swaps and offramps: "from Trading wallet send 1 SOL to ...". Null means the primary.
+        let source: Wallet | null = null;
+        const sourceRef = this.parseSourceWallet(textBody);
+        if (sourceRef) {
+          source = await this.walletService.findUserWallet(userId, sourceRef.ref);
+          if (!source) {
+            await this.bot.sendMessage(chatId, `Wallet "${sourceRef.ref}" not found. Use /wallets to see your wallet names and numbers.`);
+            return;
+          }
+          textBody = sourceRef.rest;
+        }
+        const sourceOpts = source ? { walletId: source.id, walletName: source.wallet_name } : {};
+
         // Offramp natural language wizard
         // Start wizard when user mentions offramp/withdraw in natural language
         // Fast-path: "offramp <amount>" or "withdraw <amount>"
@@ -503,17 +1870,17 @@ export class TelegramBotRunner {
                   if (accounts && accounts.length > 0) {
                     const opts = accounts.map(a => ({ id: a.id, accountName: a.accountName, accountNumber: a.accountNumber, bank: a.bank }));
                     const lines = opts.slice(0, 10).map((a, i) => `${i + 1}. ${a.accountName} — ${a.accountNumber} (${a.bank}) — ID: ${a.id}`);
-                    await this.userService.upsertSession(userId, { ...sessionData, pending: { type: 'offramp_wizard', payload: { step: 'account_pick', amount: amt, options: opts.slice(0, 10) } } });
+                    await this.userService.upsertSession(userId, { ...sessionData, pending: { type: 'offramp_wizard', payload: { step: 'account_pick', amount: amt, options: opts.slice(0, 10), ...sourceOpts } } });
                     await this.bot.sendMessage(chatId, `Select a bank account by number (1-${Math.min(10, opts.length)}):\n\n${lines.join('\n')}`);
                     return;
                   }
                 } catch {}
               }
-              await this.userService.upsertSession(userId, { ...sessionData, pending: { type: 'offramp_wizard', payload: { step: 'bank_search', amount: amt } } });
+              await this.userService.upsertSession(userId, { ...sessionData, pending: { type: 'offramp_wizard', payload: { step: 'bank_search', amount: amt, ...sourceOpts } } });
               await this.bot.sendMessage(chatId, 'No saved bank accounts found. Which bank? Reply with a bank name or country code (e.g., "STERLING" or "NG").');
               return;
             }
-            await this.userService.upsertSession(userId, { ...sessionData, pending: { type: 'offramp_wizard', payload: { step: 'amount' } } });
+            await this.userService.upsertSession(userId, { ...sessionData, pending: { type: 'offramp_wizard', payload: { step: 'amount', ...sourceOpts } } });
             await this.bot.sendMessage(chatId, 'How much do you want to offramp? (amount in USDC, e.g., 10)');
           } catch (e: any) {
             await this.bot.sendMessage(chatId, `Unable to start offramp wizard: ${e?.message || String(e)}`);
@@ -525,6 +1892,7 @@ export class TelegramBotRunner {
         if (sessionData?.pending && sessionData.pending.type === 'offramp_wizard') {
           const wizard = sessionData.pending as { type: 'offramp_wizard'; payload: any };
           const step = wizard.payload?.step as string;
+          const wizardSource = wizard.payload?.walletId ? { walletId: wizard.payload.walletId, walletName: wizard.payload.walletName } : {};
           try {
             if (step === 'amount') {
               const amt = Number(textBody.replace(/[^0-9.]/g, ''));
@@ -542,7 +1910,7 @@ export class TelegramBotRunner {
                     const lines = opts.slice(0, 10).map((a, i) => `${i + 1}. ${a.accountName} — ${a.accountNumber} (${a.bank}) — ID: ${a.id}`);
                     await this.userService.upsertSession(userId, {
                       ...sessionData,
-                      pending: { type: 'offramp_wizard', payload: { step: 'account_pick', amount: amt, options: opts.slice(0, 10) } }
+                      pending: { type: 'offramp_wizard', payload: { step: 'account_pick', amount: amt, options: opts.slice(0, 10), ...wizardSource } }
                     });
                     await this.bot.sendMessage(chatId, `Select a bank account by number (1-${Math.min(10, opts.length)}):\n\n${lines.join('\n')}`);
                     return;
@@ -552,7 +1920,7 @@ export class TelegramBotRunner {
               // Fallback to bank search flow if no saved accounts
               await this.userService.upsertSession(userId, {
                 ...sessionData,
-                pending: { type: 'offramp_wizard', payload: { step: 'bank_search', amount: amt } }
+                pending: { type: 'offramp_wizard', payload: { step: 'bank_search', amount: amt, ...wizardSource } }
               });
               await this.bot.sendMessage(chatId, 'No saved bank accounts found. Which bank? Reply with a bank name or country code (e.g., "STERLING" or "NG").');
               return;
@@ -584,24 +1952,19 @@ export class TelegramBotRunner {
                 `Account Name: ${chosen.accountName}`,
                 `Account Number: ${chosen.accountNumber}`,
                 `Bank: ${chosen.bank}`,
-                '',
-                'Type "confirm offramp" to proceed or "cancel" to abort.'
               ].join('\n');
 
-              await this.userService.upsertSession(userId, {
-                ...sessionData,
-                pending: {
-                  type: 'offramp',
-                  payload: {
-                    amount,
-                    bankAccountId: chosen.id,
-                    mint: DEFAULT_USDC_MINT,
-                    currency: calc.currency,
-                    calculation: calc
-                  }
+              await this.askToConfirm(chatId, userId, {
+                type: 'offramp',
+                payload: {
+                  amount,
+                  bankAccountId: chosen.id,
+                  mint: DEFAULT_USDC_MINT,
+                  currency: calc.currency,
+                  calculation: calc,
+                  ...wizardSource
                 }
-              });
-              await this.bot.sendMessage(chatId, preview);
+              }, preview);
               return;
             }
 
@@ -621,7 +1984,7 @@ export class TelegramBotRunner {
               const list = top.map((b, i) => `${i + 1}. ${b.name} (${b.country}) - ID: ${b.id}`).join('\n');
               await this.userService.upsertSession(userId, {
                 ...sessionData,
-                pending: { type: 'offramp_wizard', payload: { step: 'bank_pick', amount: wizard.payload.amount, options: top } }
+                pending: { type: 'offramp_wizard', payload: { step: 'bank_pick', amount: wizard.payload.amount, options: top, ...wizardSource } }
               });
               await this.bot.sendMessage(chatId, `Select a bank by number (1-${top.length}):\n\n${list}`);
               return;
@@ -637,7 +2000,7 @@ export class TelegramBotRunner {
               const chosen = options[idx - 1];
               await this.userService.upsertSession(userId, {
                 ...sessionData,
-                pending: { type: 'offramp_wizard', payload: { step: 'account', amount: wizard.payload.amount, bank: chosen } }
+                pending: { type: 'offramp_wizard', payload: { step: 'account', amount: wizard.payload.amount, bank: chosen, ...wizardSource } }
               });
               await this.bot.sendMessage(chatId, `Enter your bank account number for ${chosen.name}:`);
               return;
@@ -678,26 +2041,20 @@ export class TelegramBotRunner {
                   `Account Name: ${resolved.accountName}`,
                   `Account Number: ${resolved.accountNumber}`,
                   `Bank: ${resolved.bank.name}`,
-                  '',
-                  'Type "confirm offramp" to proceed or "cancel" to abort.'
                 ].join('\n');
 
                 // Transition to standard confirmation flow
-                await this.userService.upsertSession(userId, {
-                  ...sessionData,
-                  pending: {
-                    type: 'offramp',
-                    payload: {
-                      amount,
-                      bankAccountId: added.id,
-                      mint: DEFAULT_USDC_MINT,
-                      currency: calc.currency,
-                      calculation: calc
-                    }
+                await this.askToConfirm(chatId, userId, {
+                  type: 'offramp',
+                  payload: {
+                    amount,
+                    bankAccountId: added.id,
+                    mint: DEFAULT_USDC_MINT,
+                    currency: calc.currency,
+                    calculation: calc,
+                    ...wizardSource
                   }
-                });
-
-                await this.bot.sendMessage(chatId, preview);
+                }, preview);
               } catch (e: any) {
                 await this.bot.sendMessage(chatId, `Failed to verify/add bank account: ${e?.message || String(e)}`);
               }
@@ -708,164 +2065,84 @@ export class TelegramBotRunner {
           }
         }
 
-        // Handle confirmations for pending actions first
+        // Pending actions only run from their Confirm button; a typed "yes" is never enough
         const confirmYes = /^(yes|y|confirm|confirm send|confirm swap|confirm offramp|proceed|proceed offramp)$/i;
         const confirmNo = /^(no|n|cancel|cancel send|cancel swap|cancel offramp|abort)$/i;
         if (sessionData?.pending && (confirmYes.test(textBody) || confirmNo.test(textBody))) {
-          const pending = sessionData.pending as { type: 'send'|'swap'|'offramp'; payload: any };
           if (confirmNo.test(textBody)) {
-            await this.userService.upsertSession(userId, { ...sessionData, pending: null });
+            const dropped = await this.pendingActions.clear(userId);
+            if (dropped?.messageId) {
+              await this.bot.editMessageReplyMarkup({ inline_keyboard: [] }, { chat_id: chatId, message_id: dropped.messageId }).catch(() => {});
+            }
             await this.bot.sendMessage(chatId, '❎ Cancelled.');
             return;
           }
-          try {
-            if (pending.type === 'send') {
-              const { amount, toAddress } = pending.payload as { amount: number; toAddress: string };
-              await this.bot.sendMessage(chatId, `Sending ${amount} SOL to ${toAddress.slice(0,6)}...${toAddress.slice(-6)} from your primary wallet...`);
-              const { signature } = await this.walletService.sendSolFromPrimary(userId, toAddress, amount);
-              const explorer = process.env.SOLANA_CLUSTER === 'devnet'
-                ? `https://solscan.io/tx/${signature}?cluster=devnet`
-                : `https://solscan.io/tx/${signature}`;
-              await this.bot.sendMessage(chatId, `✅ Sent ${amount} SOL\nSignature: ${signature}\nExplorer: ${explorer}`);
-            } else if (pending.type === 'swap') {
-              const payload: any = pending.payload;
-              if (payload && payload.token) {
-                const { amount, token } = payload as { amount: number; token: string };
-                await this.bot.sendMessage(chatId, `Swapping ${amount} SOL to ${token}...`);
-                const { signature } = await this.swapService.swapSolToToken(userId, amount, token);
-                const explorer = process.env.SOLANA_CLUSTER === 'devnet'
-                  ? `https://solscan.io/tx/${signature}?cluster=devnet`
-                  : `https://solscan.io/tx/${signature}`;
-                await this.bot.sendMessage(chatId, `✅ Swap executed\nSignature: ${signature}\nExplorer: ${explorer}`);
-              } else if (payload && payload.from && payload.to) {
-                const { amount, from, to } = payload as { amount: number; from: string; to: string };
-                await this.bot.sendMessage(chatId, `Swapping ${amount} ${from.toUpperCase()} to ${to.toUpperCase()}...`);
-                const { signature } = await this.swapService.swapTokenToToken(userId, amount, from, to);
-                const explorer = process.env.SOLANA_CLUSTER === 'devnet'
-                  ? `https://solscan.io/tx/${signature}?cluster=devnet`
-                  : `https://solscan.io/tx/${signature}`;
-                await this.bot.sendMessage(chatId, `✅ Swap executed\nSignature: ${signature}\nExplorer: ${explorer}`);
-              } else {
-                await this.bot.sendMessage(chatId, 'Could not parse pending swap payload. Please re-issue the swap command.');
-              }
-            } else if (pending.type === 'offramp') {
-              const { amount, bankAccountId, mint, currency } = pending.payload as { amount: number; bankAccountId: string; mint: string; currency: string };
-              const pajToken = process.env.PAJ_TOKEN;
-              if (!pajToken) {
-                await this.bot.sendMessage(chatId, 'PAJ token not configured.');
-                return;
-              }
-
-              await this.bot.sendMessage(chatId, 'Creating offramp order...');
-
-              // Use saved bank account details to create the order (bank id + account number)
-              const allAccounts = await this.offrampService.getUserBankAccounts(pajToken);
-              const chosenAccount = allAccounts.find(a => a.id === bankAccountId);
-              if (!chosenAccount) {
-                await this.bot.sendMessage(chatId, 'Saved bank account not found.');
-                return;
-              }
+          await this.bot.sendMessage(chatId, 'Tap ✅ Confirm on the confirmation message to proceed, or type "cancel" to abort.');
+          return;
+        }
+        // history NL: "show my transactions", "transaction history", "show my swaps for BONK page 2"
+        {
+          const historyRe = /^\s*(?:show\s+)?(?:my\s+)?(?:(send|sends|sent|receive|receives|received|swap|swaps|offramp|offramps|onramp|onramps)\s+)?(?:transactions?|tx|txs|transaction\s+history|history)(?:\s+(?:for|of|with)\s+([A-Za-z0-9_:\-\.]{2,}))?(?:\s+page\s+(\d+))?\s*$/i;
+          const typeOnlyRe = /^\s*show\s+(?:my\s+)?(sends|swaps|offramps|onramps)(?:\s+(?:for|of|with)\s+([A-Za-z0-9_:\-\.]{2,}))?(?:\s+page\s+(\d+))?\s*$/i;
+          const hm = textBody.match(historyRe) || textBody.match(typeOnlyRe);
+          if (hm) {
+            const filters = this.parseHistoryFilters([hm[1], hm[2] ? hm[2] : '', hm[3] ? `page ${hm[3]}` : ''].join(' ').split(/\s+/).filter(Boolean));
+            try {
+              await this.sendHistory(chatId, userId, filters);
+            } catch (e: any) {
+              await this.bot.sendMessage(chatId, `Failed to fetch history: ${e?.message || String(e)}`);
+            }
+            return;
+          }
+        }
 
-              // Determine bankId: saved account may store bank name rather than ID
-              let bankIdForOrder = chosenAccount.bank as unknown as string;
-              const isMongoId = /^[a-f0-9]{24}$/i.test(bankIdForOrder || '');
-              if (!isMongoId) {
-                try {
-                  const banks = await this.offrampService.getBanks();
-                  const byExact = banks.find(b => (b.name || '').toLowerCase() === (bankIdForOrder || '').toLowerCase());
-                  const byContains = byExact || banks.find(b => (b.name || '').toLowerCase().includes((bankIdForOrder || '').toLowerCase()));
-                  if (byContains && byContains.id) bankIdForOrder = byContains.id;
-                } catch {}
-              }
-              if (!/^[a-f0-9]{24}$/i.test(bankIdForOrder || '')) {
-                await this.bot.sendMessage(chatId, 'Unable to resolve bank ID for the selected account. Please try again or re-add the bank account.');
-                return;
-              }
-
-              const orderRequest = {
-                bank: bankIdForOrder,
-                accountNumber: chosenAccount.accountNumber,
-                currency,
-                amount,
-                mint
-              } as any;
-
-              const orders = await this.offrampService.createOfframpOrder(pajToken, orderRequest);
-              
-              if (!orders || orders.length === 0) {
-                await this.bot.sendMessage(chatId, '❌ Failed to create offramp order.');
-                return;
-              }
-
-              const order = orders[0];
-
-              await this.bot.sendMessage(chatId, [
-                '✅ Offramp order created!',
-                '',
-                `Order ID: ${order._id}`,
-                `Expected Amount: ${order.expectedAmount}`,
-                `Status: ${order.status}`,
-                `Send To Address: ${order.address}`,
-                '',
-                'Now sending tokens to offramp address...',
-              ].join('\n'));
-
-              // Send tokens from user's wallet to the order address
-              try {
-                const { signature } = await this.walletService.sendTokenFromPrimary(
-                  userId,
-                  order.address,
-                  amount,
-                  mint
-                );
-
-                const explorer = process.env.SOLANA_CLUSTER === 'devnet'
-                  ? `https://solscan.io/tx/${signature}?cluster=devnet`
-                  : `https://solscan.io/tx/${signature}`;
-
-                await this.bot.sendMessage(chatId, [
-                  '✅ Tokens sent successfully!',
-                  '',
-                  `Sent: ${amount} tokens to ${order.address}`,
-                  `Signature: ${signature}`,
-                  `Explorer: ${explorer}`,
-                  '',
-                  `Order ID: ${order._id}`,
-                  `Status: ${order.status}`,
-                  '',
-                  'Fiat will be sent to your bank account once the transaction is confirmed.',
-                ].join('\n'));
-              } catch (sendError: any) {
-                await this.bot.sendMessage(chatId, `❌ Failed to send tokens: ${sendError?.message || sendError}\n\nOrder created but tokens not sent. Order ID: ${order._id}`);
-              }
+        // contacts NL: "save contact alice <address>", "edit contact alice <address>", "rename contact alice to bob",
+        // "delete contact alice", "show my contacts"
+        {
+          const saveRe = /^\s*(?:save|add)\s+(?:a\s+)?contact\s+(\S+)\s+(?:as\s+|at\s+)?([1-9A-HJ-NP-Za-km-z]{32,44})\s*$/i;
+          const editRe = /^\s*(?:edit|update|change)\s+contact\s+(\S+)\s+(?:to\s+)?([1-9A-HJ-NP-Za-km-z]{32,44})\s*$/i;
+          const renameRe = /^\s*rename\s+contact\s+(\S+)\s+to\s+(\S+)\s*$/i;
+          const deleteRe = /^\s*(?:delete|remove)\s+contact\s+(\S+)\s*$/i;
+          const listRe = /^\s*(?:(?:show|list)\s+(?:my\s+)?contacts|contacts|my\s+contacts|address\s+book)\s*$/i;
+          let cm: RegExpMatchArray | null;
+          try {
+            if ((cm = textBody.match(saveRe))) {
+              const contact = await this.contactService.saveContact(userId, cm[1], cm[2]);
+              await this.bot.sendMessage(chatId, `✅ Saved ${contact.name}: ${contact.address}
+Try: send 0.1 SOL to ${contact.name}`);
+              return;
             }
-          } catch (e: any) {
-            const msg = (e?.message || String(e)) as string;
-            if (pending.type === 'offramp') {
-              await this.bot.sendMessage(chatId, `❌ Offramp failed: ${msg}`);
-            } else if (pending.type === 'send') {
-              await this.bot.sendMessage(chatId, `❌ Send failed: ${msg}`);
-            } else if (pending.type === 'swap') {
-              // Shorten noisy errors
-              if (/Simulation failed/i.test(msg) || /SendTransactionError/i.test(msg)) {
-                await this.bot.sendMessage(chatId, '❌ Swap failed. Likely insufficient SOL for fees or route unavailable. Top up a small amount of SOL (e.g., 0.005) and try again.');
-              } else if (/Insufficient/i.test(msg)) {
-                await this.bot.sendMessage(chatId, `❌ Swap failed: ${msg}`);
-              } else {
-                await this.bot.sendMessage(chatId, '❌ Swap failed. Please try again shortly.');
-              }
-            } else {
-              await this.bot.sendMessage(chatId, `❌ Action failed: ${msg}`);
+            if ((cm = textBody.match(editRe))) {
+              const before = await this.contactService.getContact(userId, cm[1]);
+              const contact = await this.contactService.updateContact(userId, cm[1], cm[2]);
+              await this.bot.sendMessage(chatId, `✅ Updated ${contact.name}:
+${before?.address} → ${contact.address}`);
+              return;
             }
-          } finally {
-            await this.userService.upsertSession(userId, { ...sessionData, pending: null });
+            if ((cm = textBody.match(renameRe))) {
+              const contact = await this.contactService.renameContact(userId, cm[1], cm[2]);
+              await this.bot.sendMessage(chatId, `✅ Renamed ${cm[1].toLowerCase()} to ${contact.name}.`);
+              return;
+            }
+            if ((cm = textBody.match(deleteRe))) {
+              const deleted = await this.contactService.deleteContact(userId, cm[1]);
+              await this.bot.sendMessage(chatId, deleted ? `🗑️ Deleted contact ${cm[1].toLowerCase()}.` : `No contact named "${cm[1]}".`);
+              return;
+            }
+          } catch (e: any) {
+            await this.bot.sendMessage(chatId, `❌ ${e?.message || e}`);
+            return;
+          }
+          if (listRe.test(textBody)) {
+            await this.sendContactList(chatId, userId);
+            return;
           }
-          return;
         }
+
         // create wallet NL intents
         if (/\b(create\s+(a\s+)?)?wallet\b/i.test(textBody)) {
           try {
-            const wallets = await this.walletService.getUserWallets(userId);
+            const wallets = await this.walletService.getUserWallets(userId, true);
             const name = `Wallet ${wallets.length + 1}`;
             const result = await this.walletService.createWallet(userId, name);
             if (!result.success) {
@@ -946,20 +2223,186 @@ export class TelegramBotRunner {
           }
         }
 
-        // send SOL: "send <amount> sol to <address>" (requires confirmation)
+        // limit orders (requires confirmation):
+        //   "buy <token> when price < <usd> with <amount> <quote>"
+        //   "sell <amount> <token> when price > <usd> [for <quote>]"
+        {
+          const buyRe = /^\s*buy\s+([A-Za-z0-9_:\-\.]{2,})\s+(?:when|if)\s+(?:price\s*)?(<=?|>=?|below|under|above|over)\s*\$?(\d+(?:\.\d+)?(?:e-?\d+)?)\s+with\s+(\d+(?:\.\d+)?)\s+([A-Za-z0-9_:\-\.]{2,})\s*$/i;
+          const sellRe = /^\s*sell\s+(\d+(?:\.\d+)?)\s+([A-Za-z0-9_:\-\.]{2,})\s+(?:when|if)\s+(?:price\s*)?(<=?|>=?|below|under|above|over)\s*\$?(\d+(?:\.\d+)?(?:e-?\d+)?)(?:\s+(?:for|to|into)\s+([A-Za-z0-9_:\-\.]{2,}))?\s*$/i;
+          const bm = textBody.match(buyRe);
+          const sm = bm ? null : textBody.match(sellRe);
+          if (bm || sm) {
+            const side: 'buy'|'sell' = bm ? 'buy' : 'sell';
+            const [token, opStr, priceStr, amtStr, quoteToken] = bm
+              ? [bm[1], bm[2], bm[3], bm[4], bm[5]]
+              : [sm![2], sm![3], sm![4], sm![1], sm![5] || 'SOL'];
+            const amount = Number(amtStr);
+            const triggerPrice = Number(priceStr);
+            if (!amount || amount <= 0 || !triggerPrice || triggerPrice <= 0) {
+              await this.bot.sendMessage(chatId, 'Invalid amount or price. Example: buy BONK when price < 0.00002 with 0.5 SOL');
+              return;
+            }
+            const condition: 'below'|'above' = /^(<|below|under)/i.test(opStr) ? 'below' : 'above';
+            if (source) {
+              await this.bot.sendMessage(chatId, 'Limit orders always run from your primary wallet. Use /set_primary to change it, then place the order without "from ...".');
+              return;
+            }
+            const primary = await this.walletService.getPrimaryWallet(userId);
+            if (!primary) {
+              await this.bot.sendMessage(chatId, 'No primary wallet found. Use "create wallet" first.');
+              return;
+            }
+            // Triggered swaps use the preferred slippage at execution time, so only the guardrails are checked here
+            if (!(await this.resolveSwapSlippage(chatId, userId, side === 'buy' ? token : quoteToken))) return;
+            const what = side === 'buy'
+              ? `buy ${token.toUpperCase()} with ${amount} ${quoteToken.toUpperCase()}`
+              : `sell ${amount} ${token.toUpperCase()} for ${quoteToken.toUpperCase()}`;
+            await this.askToConfirm(chatId, userId, { type: 'limit_order', payload: { side, token, quoteToken, amount, condition, triggerPrice } },
+              `You are about to place a limit order to ${what} when the ${token.toUpperCase()} price is ${condition} $${triggerPrice}.\nThe swap runs automatically from your primary wallet once the trigger fires.`);
+            return;
+          }
+        }
+
+        // fiat amounts: "buy $20 of JUP [with USDC]", "swap 5000 naira of USDC to SOL", "send $15 of SOL to <address|contact>"
+        {
+          const buyFiatRe = /^\s*buy\s+(\$\s*\d[\d,]*(?:\.\d+)?|₦\s*\d[\d,]*(?:\.\d+)?|\d[\d,]*(?:\.\d+)?\s*(?:usd|dollars?|ngn|naira))\s+(?:of|worth\s+of)\s+([A-Za-z0-9_:\-\.]{2,})(?:\s+with\s+([A-Za-z0-9_:\-\.]{2,}))?/i;
+          const swapFiatRe = /\bswap\s+(\$\s*\d[\d,]*(?:\.\d+)?|₦\s*\d[\d,]*(?:\.\d+)?|\d[\d,]*(?:\.\d+)?\s*(?:usd|dollars?|ngn|naira))\s+(?:of|worth\s+of)\s+([A-Za-z0-9_:\-\.]{2,})\s+(?:to|for|into)\s+([A-Za-z0-9_:\-\.]{2,})/i;
+          const sendFiatRe = /\bsend\s+(\$\s*\d[\d,]*(?:\.\d+)?|₦\s*\d[\d,]*(?:\.\d+)?|\d[\d,]*(?:\.\d+)?\s*(?:usd|dollars?|ngn|naira))\s+(?:of|worth\s+of|in)\s+sol\s+to\s+((?:[A-Za-z0-9_\-]+\.)?[A-Za-z0-9_\-]+\.sol|[1-9A-HJ-NP-Za-km-z]{32,44}|[A-Za-z][A-Za-z0-9_\-]{0,31})\b/i;
+          const bm = textBody.match(buyFiatRe);
+          const wm = bm ? null : textBody.match(swapFiatRe);
+          const dm = bm || wm ? null : textBody.match(sendFiatRe);
+          if (bm || wm || dm) {
+            const fiatIn = parseFiatAmount((bm || wm || dm)![1]);
+            if (!fiatIn) {
+              await this.bot.sendMessage(chatId, 'Invalid amount. Example: buy $20 of JUP');
+              return;
+            }
+            // buy spends SOL unless "with <token>" is given
+            const [fromTk, toTk] = bm ? [bm[3] || 'SOL', bm[2]] : wm ? [wm[2], wm[3]] : ['SOL', ''];
+            let conversion: FiatConversion;
+            try {
+              conversion = await this.fiatAmounts.convert(fiatIn, fromTk);
+            } catch (e: any) {
+              await this.bot.sendMessage(chatId, `Could not convert ${(bm || wm || dm)![1]} to ${fromTk.toUpperCase()}: ${e?.message || e}`);
+              return;
+            }
+            const note = `${formatFiat(conversion)} at $${conversion.priceUsd.toLocaleString(undefined, { maximumSignificantDigits: 6 })}/${fromTk.toUpperCase()}`;
+            if (!(conversion.tokenAmount > 0)) {
+              await this.bot.sendMessage(chatId, `${note} is too small to ${dm ? 'send' : 'swap'}.`);
+              return;
+            }
+
+            if (dm) {
+              const recipient = await this.resolveRecipient(chatId, userId, dm[2]);
+              if (!recipient) return;
+              const amount = conversion.tokenAmount;
+              const pending: GuardedAction = { type: 'send', payload: { amount, toAddress: recipient.address, contact: recipient.contact, domain: recipient.domain, fiat: conversion, ...sourceOpts } };
+              if (await this.tryAutoApprove(chatId, userId, pending)) return;
+              await this.askToConfirm(chatId, userId, pending, `You are about to send ${amount} SOL (${note}) to ${recipient.label}.`);
+              return;
+            }
+            await this.proposeSwap(chatId, userId, textBody, conversion.tokenAmount, fromTk, toTk, { note, fiat: conversion, source });
+            return;
+          }
+        }
+
+        // send SOL: "send <amount> sol to <address|contact>" (requires confirmation)
         {
-          const sendRe = /\bsend\s+(\d+(?:\.\d+)?)\s+sol\s+to\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i;
+          const sendRe = /\bsend\s+(\d+(?:\.\d+)?)\s+sol\s+to\s+((?:[A-Za-z0-9_\-]+\.)?[A-Za-z0-9_\-]+\.sol|[1-9A-HJ-NP-Za-km-z]{32,44}|[A-Za-z][A-Za-z0-9_\-]{0,31})\b/i;
           const sm = textBody.match(sendRe);
           if (sm) {
-            const [, amtStr, toAddress] = sm;
+            const [, amtStr, recipientIn] = sm;
             const amount = Number(amtStr);
             if (!amount || amount <= 0) {
               await this.bot.sendMessage(chatId, 'Invalid amount. Example: send 0.01 SOL to <address>');
               return;
             }
-            // Save pending action and ask for confirmation
-            await this.userService.upsertSession(userId, { ...sessionData, pending: { type: 'send', payload: { amount, toAddress } } });
-            await this.bot.sendMessage(chatId, `You are about to send ${amount} SOL to ${toAddress}.\nType "confirm" to proceed or "cancel" to abort.`);
+            const recipient = await this.resolveRecipient(chatId, userId, recipientIn);
+            if (!recipient) return;
+            const pending: GuardedAction = { type: 'send', payload: { amount, toAddress: recipient.address, contact: recipient.contact, domain: recipient.domain, ...sourceOpts } };
+            if (await this.tryAutoApprove(chatId, userId, pending)) return;
+            await this.askToConfirm(chatId, userId, pending, `You are about to send ${amount} SOL to ${recipient.label}.`);
+            return;
+          }
+        }
+
+        // send SPL tokens: "send <amount> <token> to <address|contact>" (requires confirmation)
+        {
+          const sendTokenRe = /\bsend\s+(\d+(?:\.\d+)?)\s+([A-Za-z0-9_:\-\.]{2,})\s+to\s+((?:[A-Za-z0-9_\-]+\.)?[A-Za-z0-9_\-]+\.sol|[1-9A-HJ-NP-Za-km-z]{32,44}|[A-Za-z][A-Za-z0-9_\-]{0,31})\b/i;
+          const tm = textBody.match(sendTokenRe);
+          if (tm) {
+            const [, amtStr, tokenIn, recipientIn] = tm;
+            const amount = Number(amtStr);
+            if (!amount || amount <= 0) {
+              await this.bot.sendMessage(chatId, 'Invalid amount. Example: send 25 USDC to <address>');
+              return;
+            }
+            const wallet = source || await this.walletService.getPrimaryWallet(userId);
+            if (!wallet) {
+              await this.bot.sendMessage(chatId, 'No primary wallet found. Use "create wallet" first.');
+              return;
+            }
+            const held = await this.portfolioService.filterTokenBalance(userId, tokenIn, source?.id);
+            if (!held || held.mint === 'SOL') {
+              await this.bot.sendMessage(chatId, `You have no ${tokenIn.toUpperCase()} in ${source ? source.wallet_name : 'your primary wallet'}.`);
+              return;
+            }
+            const recipient = await this.resolveRecipient(chatId, userId, recipientIn);
+            if (!recipient) return;
+            let preview;
+            try {
+              preview = await this.walletService.previewTokenSend(wallet.id, recipient.address, amount, held.mint);
+            } catch (e: any) {
+              await this.bot.sendMessage(chatId, `Cannot send ${amount} ${held.symbol}: ${e?.message || e}`);
+              return;
+            }
+            const pending: GuardedAction = { type: 'send', payload: { amount, toAddress: recipient.address, contact: recipient.contact, domain: recipient.domain, mint: held.mint, symbol: held.symbol, ...sourceOpts } };
+            if (await this.tryAutoApprove(chatId, userId, pending)) return;
+            const lines = [
+              `You are about to send ${amount} ${held.symbol} to ${recipient.label}.`,
+              `Balance: ${preview.balance} ${held.symbol}`,
+              preview.createsRecipientAccount
+                ? `Recipient token account: will be created (~${preview.accountRentSol.toFixed(6)} SOL rent, paid by you)`
+                : 'Recipient token account: exists',
+              `Network fee: ~${preview.networkFeeSol} SOL`,
+            ];
+            await this.askToConfirm(chatId, userId, pending, lines.join('\n'));
+            return;
+          }
+        }
+
+        // portion swaps: "sell all BONK", "sell 50% of WIF", "swap half my SOL to USDC", "swap max USDC to SOL"
+        {
+          const sellRe = /^\s*sell\s+(all|everything|max|half|\d+(?:\.\d+)?\s*%)\s+(?:of\s+)?(?:my\s+)?([A-Za-z0-9_:\-\.]{2,})(?:\s+(?:for|to|into)\s+([A-Za-z0-9_:\-\.]{2,}))?/i;
+          const swapPortionRe = /\bswap\s+(all|everything|max|half|\d+(?:\.\d+)?\s*%)\s+(?:of\s+)?(?:my\s+)?([A-Za-z0-9_:\-\.]{2,})\s+(?:to|for|into)\s+([A-Za-z0-9_:\-\.]{2,})/i;
+          const pm = textBody.match(sellRe) || textBody.match(swapPortionRe);
+          if (pm) {
+            const [, portionStr, fromTk, toIn] = pm;
+            // Selling SOL with no target means cashing out to USDC
+            const toTk = toIn || (fromTk.toLowerCase() === 'sol' ? 'USDC' : 'SOL');
+            const fraction = /^half$/i.test(portionStr) ? 0.5 : /%$/.test(portionStr) ? parseFloat(portionStr) / 100 : 1;
+            if (!(fraction > 0 && fraction <= 1)) {
+              await this.bot.sendMessage(chatId, 'Percentage must be between 0% and 100%. Example: sell 50% of WIF');
+              return;
+            }
+            const balance = await this.portfolioService.filterTokenBalance(userId, fromTk, source?.id);
+            if (!balance || !(balance.amount > 0)) {
+              await this.bot.sendMessage(chatId, `You have no ${fromTk.toUpperCase()} in ${source ? source.wallet_name : 'your primary wallet'}.`);
+              return;
+            }
+            let amount = balance.amount * fraction;
+            if (fromTk.toLowerCase() === 'sol') {
+              // Keep the fee buffer so the swap (and the next one) can still pay fees
+              const FEE_BUFFER_SOL = Number(process.env.SWAP_FEE_BUFFER_SOL || '0.003');
+              amount = Math.min(amount, balance.amount - FEE_BUFFER_SOL);
+              if (!(amount > 0)) {
+                await this.bot.sendMessage(chatId, `Your ${balance.amount} SOL does not cover the ${FEE_BUFFER_SOL} SOL kept for fees.`);
+                return;
+              }
+            }
+            amount = Math.floor(amount * 1e9) / 1e9;
+            const label = fraction === 1 ? 'all' : `${+(fraction * 100).toFixed(2)}%`;
+            await this.proposeSwap(chatId, userId, textBody, amount, fromTk, toTk, { note: `${label} of your ${balance.amount} ${balance.symbol}`, source });
             return;
           }
         }
@@ -975,22 +2418,7 @@ export class TelegramBotRunner {
               await this.bot.sendMessage(chatId, 'Invalid amount. Example: swap 0.05 SOL to USDC');
               return;
             }
-            // Pre-confirmation fee check
-            const FEE_BUFFER_SOL = Number(process.env.SWAP_FEE_BUFFER_SOL || '0.003');
-            const primary = await this.walletService.getPrimaryWallet(userId);
-            if (!primary) {
-              await this.bot.sendMessage(chatId, 'No primary wallet found. Use "create wallet" first.');
-              return;
-            }
-            const solBal = await this.walletService.updateWalletBalance(primary.id);
-            const needSol = amount + FEE_BUFFER_SOL;
-            if (solBal < needSol) {
-              const topUp = (needSol - solBal);
-              await this.bot.sendMessage(chatId, `You need ~${needSol.toFixed(6)} SOL (amount + fees). You have ${solBal.toFixed(6)} SOL. Top up ~${topUp.toFixed(6)} SOL, then try again.`);
-              return;
-            }
-            await this.userService.upsertSession(userId, { ...sessionData, pending: { type: 'swap', payload: { amount, token } } });
-            await this.bot.sendMessage(chatId, `You are about to swap ${amount} SOL to ${token}.\nType "confirm" to proceed or "cancel" to abort.`);
+            await this.proposeSwap(chatId, userId, textBody, amount, 'SOL', token, { source });
             return;
           }
         }
@@ -1006,31 +2434,16 @@ export class TelegramBotRunner {
               await this.bot.sendMessage(chatId, 'Invalid amount. Example: swap 10 USDC to BONK');
               return;
             }
-            // Pre-confirmation fee check (require fee buffer if input is not SOL too)
-            const FEE_BUFFER_SOL = Number(process.env.SWAP_FEE_BUFFER_SOL || '0.003');
-            const primary = await this.walletService.getPrimaryWallet(userId);
-            if (!primary) {
-              await this.bot.sendMessage(chatId, 'No primary wallet found. Use "create wallet" first.');
-              return;
-            }
-            const solBal = await this.walletService.updateWalletBalance(primary.id);
-            const fromIsSol = fromTk.toLowerCase() === 'sol';
-            const needSol = fromIsSol ? (amount + FEE_BUFFER_SOL) : FEE_BUFFER_SOL;
-            if (solBal < needSol) {
-              const topUp = (needSol - solBal);
-              await this.bot.sendMessage(chatId, `You need ~${needSol.toFixed(6)} SOL for fees${fromIsSol ? ' (and amount)' : ''}. You have ${solBal.toFixed(6)} SOL. Top up ~${topUp.toFixed(6)} SOL, then try again.`);
-              return;
-            }
-            await this.userService.upsertSession(userId, { ...sessionData, pending: { type: 'swap', payload: { amount, from: fromTk, to: toTk } } });
-            await this.bot.sendMessage(chatId, `You are about to swap ${amount} ${fromTk.toUpperCase()} to ${toTk.toUpperCase()}.\nType "confirm" to proceed or "cancel" to abort.`);
+            await this.proposeSwap(chatId, userId, textBody, amount, fromTk, toTk, { source });
             return;
           }
         }
 
         // onramp NL (primary wallet recipient):
         //   "onramp <fiat> [currency] [mint] [chain] [env]"
+        // Anchored at the end so the explicit-recipient form below is not read as this one
         {
-          const simpleRe = /\bonramp\s+(\d+(?:\.\d+)?)(?:\s+([A-Za-z]{2,}))?(?:\s+([1-9A-HJ-NP-Za-km-z]{32,44}))?(?:\s+([A-Za-z]+))?(?:\s+(staging|production))?/i;
+          const simpleRe = /\bonramp\s+(\d+(?:\.\d+)?)(?:\s+([A-Za-z]{2,}))?(?:\s+([1-9A-HJ-NP-Za-km-z]{32,44}))?(?:\s+([A-Za-z]+))?(?:\s+(staging|production))?\s*$/i;
           const sm = textBody.match(simpleRe);
           if (sm) {
             const [, amtStr, currencyMaybe, mintMaybe, chainIn, envIn] = sm;
@@ -1055,6 +2468,7 @@ export class TelegramBotRunner {
               }
               await this.bot.sendMessage(chatId, `Creating on-ramp order to your primary wallet (recipient: ${recipient.slice(0,6)}...${recipient.slice(-6)})...`);
               const order = await createOrder({ fiatAmount, currency, recipient, mint, chain, token }) as any;
+              await this.recordOnrampOrder(userId, order, { fiatAmount, currency, recipient, mint, chain });
               const amountDisp = (order as any)?.fiatAmount ?? (order as any)?.amount ?? fiatAmount;
               const currencyDisp = (order as any)?.currency ?? currency;
               const out = [
@@ -1076,23 +2490,26 @@ export class TelegramBotRunner {
           }
         }
 
-        // onramp NL (explicit recipient): "onramp <fiat> <currency> <recipient> <mint> [chain] [env]"
-        const onrampRe = /\bonramp\s+(\d+(?:\.\d+)?)\s+([A-Za-z]{2,})\s+([1-9A-HJ-NP-Za-km-z]{32,44})\s+([1-9A-HJ-NP-Za-km-z]{32,44})(?:\s+([A-Za-z]+))?(?:\s+(staging|production))?/i;
+        // onramp NL (explicit recipient): "onramp <fiat> <currency> <recipient|name.sol> <mint> [chain] [env]"
+        const onrampRe = /\bonramp\s+(\d+(?:\.\d+)?)\s+([A-Za-z]{2,})\s+((?:[A-Za-z0-9_\-]+\.)?[A-Za-z0-9_\-]+\.sol|[1-9A-HJ-NP-Za-km-z]{32,44})\s+([1-9A-HJ-NP-Za-km-z]{32,44})(?:\s+([A-Za-z]+))?(?:\s+(staging|production))?/i;
         const m = textBody.match(onrampRe);
         if (m) {
-          const [, amtStr, currency, recipient, mint, chainIn, envIn] = m;
+          const [, amtStr, currency, recipientIn, mint, chainIn, envIn] = m;
           const fiatAmount = Number(amtStr);
           const chain = (chainIn || 'SOLANA').toUpperCase();
           const environment = (envIn || process.env.PAJ_RAMP_ENV || 'staging') as 'staging'|'production';
           try {
+            const recipient = isSolDomain(recipientIn) ? await this.resolveDomain(chatId, recipientIn.toLowerCase()) : recipientIn;
+            if (!recipient) return;
             initializeSDK(environment);
             const token = process.env.PAJ_TOKEN;
             if (!token) {
               await this.bot.sendMessage(chatId, 'Missing PAJ_TOKEN in environment. Please set it in the server .env');
               return;
             }
-            await this.bot.sendMessage(chatId, 'Creating on-ramp order...');
+            await this.bot.sendMessage(chatId, recipient !== recipientIn ? `Creating on-ramp order to ${recipientIn.toLowerCase()} (${recipient})...` : 'Creating on-ramp order...');
             const order = await createOrder({ fiatAmount, currency, recipient, mint, chain, token }) as any;
+            await this.recordOnrampOrder(userId, order, { fiatAmount, currency, recipient, mint, chain });
             const amountDisp = (order as any)?.fiatAmount ?? (order as any)?.amount ?? fiatAmount;
             const currencyDisp = (order as any)?.currency ?? currency;
             const out = [
@@ -1114,7 +2531,7 @@ export class TelegramBotRunner {
         }
 
         // TODO: add send sol / swap / crosschain swap / trade intents
-        await this.bot.sendMessage(chatId, 'Wallet mode ready. Try:\n- create wallet\n- what is my balance\n- show all tokens\n- USDC balance\n- send 0.01 SOL to <address>\n- swap 0.05 SOL to USDC\n- swap 10 USDC to BONK\n- onramp 2000');
+        await this.bot.sendMessage(chatId, 'Wallet mode ready. Try:\n- create wallet\n- what is my balance\n- show all tokens\n- USDC balance\n- send 0.01 SOL to <address>\n- swap 0.05 SOL to USDC\n- swap 10 USDC to BONK\n- buy BONK when price < 0.00002 with 0.5 SOL\n- alert BONK above $0.00003\n- show my transactions\n- onramp 2000');
         return;
       }
 
@@ -1469,25 +2886,171 @@ export class TelegramBotRunner {
       }
     });
 
+    // Import an existing wallet: /import_wallet [derivation path] [secret]
+    // Without a secret the bot asks for it as a reply, so it can be deleted right away
+    this.bot.onText(/^\/import_wallet(?:\s+([\s\S]+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const parts = (match?.[1] || '').trim().split(/\s+/).filter(Boolean);
+      const pathArg = parts.find(p => p.startsWith('m/'));
+      const secret = parts.filter(p => p !== pathArg).join(' ');
+
+      // Everyone in a group sees the secret until it is deleted, and deleting needs admin rights there
+      if (msg.chat.type !== 'private') {
+        if (secret) await this.bot.deleteMessage(chatId, msg.message_id).catch(() => undefined);
+        await this.bot.sendMessage(chatId, [
+          'Wallets can only be imported in a private chat with me. Send /import_wallet there.',
+          ...(secret ? ['⚠️ Your key or seed phrase was posted in this group. Treat it as compromised and move its funds.'] : []),
+        ].join('\n'));
+        return;
+      }
+
+      if (pathArg && !isValidDerivationPath(pathArg)) {
+        if (secret) await this.bot.deleteMessage(chatId, msg.message_id).catch(() => undefined);
+        await this.bot.sendMessage(chatId, `Invalid derivation path: ${pathArg}\nUse hardened segments only, e.g. ${DEFAULT_DERIVATION_PATH}`);
+        return;
+      }
+
+      try {
+        if (secret) {
+          await this.importWalletFromMessage(chatId, userId, msg.message_id, secret, pathArg);
+          return;
+        }
+
+        await this.bot.sendMessage(chatId, [
+          'Reply to the next message with one of:',
+          '- a base58 private key (Phantom / Solflare export)',
+          '- a JSON byte array (solana-keygen file contents)',
+          '- a 12 or 24 word seed phrase',
+          '',
+          `Seed phrases use the path ${pathArg || DEFAULT_DERIVATION_PATH}.`,
+          'Your message is deleted as soon as it is received.',
+        ].join('\n'));
+        const answerMsg = await this.awaitReply(chatId, userId, 'Send the key or seed phrase to import:', true);
+        await this.importWalletFromMessage(chatId, userId, answerMsg.message_id, answerMsg.text || '', pathArg);
+      } catch (err) {
+        if (err instanceof PromptCancelledError) return;
+        await this.bot.sendMessage(chatId, `Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    });
+
+    // Export a wallet's private key after re-entering the account password: /export_wallet [wallet_index|public_key]
+    this.bot.onText(/^\/export_wallet(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      if (msg.chat.type !== 'private') {
+        await this.bot.sendMessage(chatId, 'Private keys are only shown in a private chat with me. Send /export_wallet there.');
+        return;
+      }
+
+      const userId = BigInt(from.id);
+      const arg = (match?.[1] || '').trim();
+      const maxPerDay = Number(process.env.EXPORT_MAX_PER_DAY || 3);
+      const maxFailedPerHour = Number(process.env.EXPORT_MAX_FAILED_PER_HOUR || 5);
+      const ttlSeconds = Number(process.env.EXPORT_MESSAGE_TTL_SECONDS || 60);
+
+      try {
+        const wallets = await this.walletService.getUserWallets(userId);
+        if (!wallets.length) {
+          await this.bot.sendMessage(chatId, 'You have no wallets yet. Use /create_wallet first.');
+          return;
+        }
+
+        // Archived wallets can be exported too, so their funds are never stranded
+        const wallet = !arg
+          ? wallets.find(w => w.is_primary) || wallets[0]
+          : await this.walletService.findUserWallet(userId, arg, true);
+        if (!wallet) {
+          await this.bot.sendMessage(chatId, 'Wallet not found. Provide a name, index (from /wallets all) or public key.');
+          return;
+        }
+
+        if (!(await this.userService.hasPassword(userId))) {
+          await this.bot.sendMessage(chatId, 'Exporting keys requires a password. Set one with /set_password, then run /export_wallet again.');
+          return;
+        }
+        if (await this.auditService.countRecent(userId, 'wallet_export', false, 60 * 60) >= maxFailedPerHour) {
+          await this.bot.sendMessage(chatId, '🔒 Too many wrong passwords. Key export is locked for up to an hour.');
+          return;
+        }
+        if (await this.auditService.countRecent(userId, 'wallet_export', true, 24 * 60 * 60) >= maxPerDay) {
+          await this.bot.sendMessage(chatId, `You can export at most ${maxPerDay} key(s) per 24 hours. Please try again later.`);
+          return;
+        }
+
+        await this.bot.sendMessage(chatId, [
+          `Exporting: ${wallet.wallet_name} (${wallet.public_key})`,
+          'Anyone with this key controls the funds in this wallet. Never share it.',
+          'Your password message is deleted as soon as it is received.',
+        ].join('\n'));
+        const password = await this.promptSecret(chatId, userId, 'Enter your password:');
+        const ok = await this.userService.verifyUserPassword(userId, password);
+        if (!ok) {
+          await this.auditService.record(userId, 'wallet_export', false, { walletId: wallet.id, details: { reason: 'bad_password' } });
+          const failures = await this.auditService.countRecent(userId, 'wallet_export', false, 60 * 60);
+          const left = Math.max(0, maxFailedPerHour - failures);
+          await this.bot.sendMessage(chatId, left > 0
+            ? `❌ Wrong password. ${left} attempt(s) left this hour.`
+            : '🔒 Wrong password. Key export is now locked for up to an hour.');
+          return;
+        }
+
+        const secret = await this.walletService.getPrivateKey(wallet.id, userId);
+        if (!secret) {
+          await this.auditService.record(userId, 'wallet_export', false, { walletId: wallet.id, details: { reason: 'decrypt_failed' } });
+          await this.bot.sendMessage(chatId, '❌ Unable to decrypt this wallet.');
+          return;
+        }
+
+        const keyMsg = await this.bot.sendMessage(chatId, [
+          `🔑 Private key for ${wallet.wallet_name}`,
+          bs58.encode(secret),
+          '',
+          `Import it into Phantom or Solflare. This message deletes itself in ${ttlSeconds}s.`,
+        ].join('\n'), { protect_content: true });
+        await this.auditService.record(userId, 'wallet_export', true, { walletId: wallet.id, details: { publicKey: wallet.public_key } });
+
+        setTimeout(() => {
+          this.bot.deleteMessage(chatId, keyMsg.message_id).catch((e) => {
+            console.error('Failed to delete exported key message:', e instanceof Error ? e.message : e);
+          });
+        }, ttlSeconds * 1000);
+      } catch (err) {
+        if (err instanceof PromptCancelledError) return;
+        await this.bot.sendMessage(chatId, `Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    });
+
     // List wallets
-    this.bot.onText(/^\/wallets$/, async (msg) => {
+    this.bot.onText(/^\/wallets(?:\s+(all))?$/i, async (msg, match) => {
       const chatId = msg.chat.id;
       const from = msg.from;
       if (!from) return;
 
       const userId = BigInt(from.id);
-      const wallets = await this.walletService.getUserWallets(userId);
+      const showArchived = !!match?.[1];
+      const all = await this.walletService.getUserWallets(userId, true);
+      const wallets = showArchived ? all : all.filter(w => !w.archived_at);
+      const hidden = all.length - wallets.length;
 
       if (!wallets.length) {
-        await this.bot.sendMessage(chatId, 'You have no wallets yet. Use /create_wallet to create one.');
+        await this.bot.sendMessage(chatId, hidden
+          ? `You have no active wallets (${hidden} archived). Use /wallets all to see them or /create_wallet to create one.`
+          : 'You have no wallets yet. Use /create_wallet to create one.');
         return;
       }
 
       const lines = wallets.map((w, idx) => {
-        const primary = w.is_primary ? ' (primary)' : '';
+        const primary = w.is_primary ? ' (primary)' : w.archived_at ? ' (archived)' : '';
         const bal = typeof w.balance_sol === 'number' ? ` — ${w.balance_sol} SOL` : '';
         return `${idx + 1}. ${w.wallet_name}${primary}\n   ${w.public_key}${bal}`;
       });
+      if (hidden) lines.push('', `${hidden} archived wallet(s) hidden. Use /wallets all to list them.`);
 
       await this.bot.sendMessage(chatId, `Your wallets:\n\n${lines.join('\n')}`);
     });
@@ -1557,6 +3120,568 @@ export class TelegramBotRunner {
       }
     });
 
+    // Rename a wallet: "/rename_wallet 2 Trading" or "/rename_wallet Main to Savings"
+    this.bot.onText(/^\/rename_wallet(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const arg = (match?.[1] || '').trim();
+      const m = arg.match(/^(.+?)\s+(?:to|as)\s+(.+)$/i) || arg.match(/^(\S+)\s+(.+)$/);
+      if (!m) {
+        await this.bot.sendMessage(chatId, 'Usage: /rename_wallet <name|index> to <new name>\nExample: /rename_wallet 2 to Trading');
+        return;
+      }
+      const newName = m[2].trim();
+      if (newName.length > 32 || /^#?\d+$/.test(newName) || newName.startsWith('/')) {
+        await this.bot.sendMessage(chatId, 'Wallet names must be at most 32 characters and cannot be just a number.');
+        return;
+      }
+
+      const wallet = await this.walletService.findUserWallet(userId, m[1], true);
+      if (!wallet) {
+        await this.bot.sendMessage(chatId, `Wallet "${m[1]}" not found. Use /wallets all to see your wallets.`);
+        return;
+      }
+      const taken = (await this.walletService.getUserWallets(userId, true))
+        .some(w => w.id !== wallet.id && w.wallet_name.toLowerCase() === newName.toLowerCase());
+      if (taken) {
+        await this.bot.sendMessage(chatId, `You already have a wallet named "${newName}".`);
+        return;
+      }
+
+      const ok = await this.walletService.renameWallet(wallet.id, userId, newName);
+      await this.bot.sendMessage(chatId, ok ? `✅ Renamed ${wallet.wallet_name} to ${newName}.` : 'Failed to rename wallet.');
+    });
+
+    // Archive or unarchive a wallet: archived ones are hidden from /wallets but keep their history
+    this.bot.onText(/^\/(archive|unarchive)_wallet(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const archive = match?.[1].toLowerCase() === 'archive';
+      const arg = (match?.[2] || '').trim();
+      if (!arg) {
+        await this.bot.sendMessage(chatId, `Usage: /${archive ? 'archive' : 'unarchive'}_wallet <name|index>`);
+        return;
+      }
+
+      const wallet = await this.walletService.findUserWallet(userId, arg, true);
+      if (!wallet) {
+        await this.bot.sendMessage(chatId, `Wallet "${arg}" not found. Use /wallets all to see your wallets.`);
+        return;
+      }
+
+      if (!archive) {
+        if (!wallet.archived_at) {
+          await this.bot.sendMessage(chatId, `${wallet.wallet_name} is not archived.`);
+          return;
+        }
+        const ok = await this.walletService.unarchiveWallet(wallet.id, userId);
+        await this.bot.sendMessage(chatId, ok ? `✅ ${wallet.wallet_name} is back in /wallets.` : 'Failed to unarchive wallet.');
+        return;
+      }
+
+      if (wallet.archived_at) {
+        await this.bot.sendMessage(chatId, `${wallet.wallet_name} is already archived.`);
+        return;
+      }
+      if (wallet.is_primary) {
+        await this.bot.sendMessage(chatId, 'You cannot archive your primary wallet. Set another wallet as primary with /set_primary first.');
+        return;
+      }
+      const ok = await this.walletService.archiveWallet(wallet.id, userId);
+      await this.bot.sendMessage(chatId, ok
+        ? `✅ Archived ${wallet.wallet_name}. It no longer shows in /wallets and cannot be used for sends or swaps; its transactions stay in /history.\nUse /unarchive_wallet ${wallet.wallet_name} to restore it.`
+        : 'Failed to archive wallet.');
+    });
+
+    // Sweep a wallet: move every token and all SOL into another of the user's wallets (default: primary)
+    this.bot.onText(/^\/sweep_wallet(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const arg = (match?.[1] || '').trim();
+      const m = arg.match(/^(.+?)(?:\s+(?:to|into)\s+(.+))?$/i);
+      if (!m) {
+        await this.bot.sendMessage(chatId, 'Usage: /sweep_wallet <name|index> [to <name|index>]\nMoves every token and all SOL, by default into your primary wallet.');
+        return;
+      }
+
+      const wallet = await this.walletService.findUserWallet(userId, m[1], true);
+      const target = m[2]
+        ? await this.walletService.findUserWallet(userId, m[2])
+        : await this.walletService.getPrimaryWallet(userId);
+      if (!wallet || !target) {
+        await this.bot.sendMessage(chatId, `Wallet "${!wallet ? m[1] : m[2] || 'primary'}" not found. Use /wallets all to see your wallets.`);
+        return;
+      }
+      if (wallet.id === target.id) {
+        await this.bot.sendMessage(chatId, 'Pick a different wallet to sweep into.');
+        return;
+      }
+
+      const holdings = await this.getWalletHoldings(chatId, userId, wallet);
+      if (!holdings) return;
+      if (holdings.empty) {
+        await this.bot.sendMessage(chatId, `${wallet.wallet_name} is already empty.`);
+        return;
+      }
+      await this.askToConfirm(chatId, userId, {
+        type: 'sweep',
+        payload: { walletId: wallet.id, walletName: wallet.wallet_name, toAddress: target.public_key, toWalletName: target.wallet_name },
+      }, [
+        `You are about to move everything in ${wallet.wallet_name} into ${target.wallet_name}:`,
+        holdings.summary,
+        'Each token is a separate transaction; the network fees come out of the SOL being moved.',
+      ].join('\n'));
+    });
+
+    // Batch send: "/batch_send [wallet]" followed by "address,amount,token" rows, one per line
+    this.bot.onText(/^\/batch_send(?:[ \t]+([^\n]*))?(?:\n([\s\S]*))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const rows = (match?.[2] || '').trim();
+      if (!rows) {
+        await this.bot.sendMessage(chatId, [
+          'Usage: /batch_send [wallet], then one "address,amount,token" row per line:',
+          '/batch_send',
+          'alice,100,USDC',
+          '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU,0.5,SOL',
+          '',
+          `Or upload a .csv file with /batch_send as its caption. Up to ${MAX_BATCH_ROWS} rows; addresses, .sol domains and contact names all work.`,
+        ].join('\n'));
+        return;
+      }
+      await this.startBatchSend(chatId, userId, (match?.[1] || '').trim(), rows);
+    });
+
+    // Batch send from an uploaded CSV whose caption is "/batch_send [wallet]"
+    this.bot.on('document', async (msg) => {
+      const caption = (msg.caption || '').trim().match(/^\/batch_send(?:\s+(.+))?$/i);
+      if (!caption || !msg.document || !msg.from) return;
+      const chatId = msg.chat.id;
+      const userId = BigInt(msg.from.id);
+
+      const MAX_CSV_BYTES = 64 * 1024;
+      if ((msg.document.file_size || 0) > MAX_CSV_BYTES) {
+        await this.bot.sendMessage(chatId, `That file is too large. Batch CSVs can be up to ${MAX_CSV_BYTES / 1024} KB (${MAX_BATCH_ROWS} rows).`);
+        return;
+      }
+      try {
+        const chunks: Buffer[] = [];
+        for await (const chunk of this.bot.getFileStream(msg.document.file_id)) chunks.push(Buffer.from(chunk));
+        await this.startBatchSend(chatId, userId, (caption[1] || '').trim(), Buffer.concat(chunks).toString('utf8'));
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Could not read the file: ${e?.message || e}`);
+      }
+    });
+
+    // Delete a wallet. Needs the wallet name typed back; one that still holds funds must be exported or swept first.
+    this.bot.onText(/^\/delete_wallet(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const arg = (match?.[1] || '').trim();
+      if (!arg) {
+        await this.bot.sendMessage(chatId, 'Usage: /delete_wallet <name|index>');
+        return;
+      }
+
+      try {
+        const wallet = await this.walletService.findUserWallet(userId, arg, true);
+        if (!wallet) {
+          await this.bot.sendMessage(chatId, `Wallet "${arg}" not found. Use /wallets all to see your wallets.`);
+          return;
+        }
+        const all = await this.walletService.getUserWallets(userId, true);
+        if (wallet.is_primary && all.length > 1) {
+          await this.bot.sendMessage(chatId, 'You cannot delete your primary wallet. Set another wallet as primary with /set_primary first.');
+          return;
+        }
+
+        const holdings = await this.getWalletHoldings(chatId, userId, wallet);
+        if (!holdings) return;
+        const index = all.findIndex(w => w.id === wallet.id) + 1;
+        if (!holdings.empty && !(await this.auditService.hasSucceededForWallet(userId, 'wallet_export', wallet.id))) {
+          await this.bot.sendMessage(chatId, [
+            `${wallet.wallet_name} still holds ${holdings.summary}.`,
+            'Before deleting it, either:',
+            `- move the funds with /sweep_wallet ${index}, or`,
+            `- save its private key with /export_wallet ${index}`,
+            '',
+            `To hide it but keep its history instead, use /archive_wallet ${index}.`,
+          ].join('\n'));
+          return;
+        }
+
+        const answer = await this.promptReply(chatId, userId, [
+          ...(holdings.empty ? [] : [`⚠️ ${wallet.wallet_name} still holds ${holdings.summary}. Only the key you exported can recover it after this.`]),
+          `Deleting ${wallet.wallet_name} (${wallet.public_key}) also removes its transaction history from the bot.`,
+          `Reply with the wallet name "${wallet.wallet_name}" to confirm:`,
+        ].join('\n'));
+        if (answer !== wallet.wallet_name) {
+          await this.bot.sendMessage(chatId, '❎ Not deleted: the name did not match.');
+          return;
+        }
+
+        const ok = await this.walletService.deleteWallet(wallet.id, userId);
+        await this.bot.sendMessage(chatId, ok ? `🗑 Deleted ${wallet.wallet_name}.` : 'Failed to delete wallet.');
+      } catch (err) {
+        if (err instanceof PromptCancelledError) return;
+        await this.bot.sendMessage(chatId, `Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    });
+
+    // List open limit orders
+    this.bot.onText(/^\/orders$/, async (msg) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      try {
+        const orders = await this.limitOrderService.getOpenOrders(userId);
+        if (!orders.length) {
+          await this.bot.sendMessage(chatId, 'You have no open limit orders.\nExample: buy BONK when price < 0.00002 with 0.5 SOL');
+          return;
+        }
+
+        const lines = orders.map((o, idx) => {
+          const op = o.trigger_condition === 'below' ? '<' : '>';
+          return `${idx + 1}. ${o.side.toUpperCase()} ${o.amount} ${o.input_symbol} → ${o.output_symbol}\n   when ${o.watch_symbol} ${op} $${o.trigger_price}\n   ID: ${o.id}`;
+        });
+        await this.bot.sendMessage(chatId, `Open limit orders:\n\n${lines.join('\n')}\n\nUse /cancel_order <index|id> to cancel.`);
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to fetch orders: ${e?.message || e}`);
+      }
+    });
+
+    // Cancel a limit order by index (from /orders) or id
+    this.bot.onText(/^\/cancel_order(?:\s+(.+))?$/, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const arg = (match?.[1] || '').trim();
+      if (!arg) {
+        await this.bot.sendMessage(chatId, 'Usage: /cancel_order <order_index|order_id>');
+        return;
+      }
+
+      try {
+        const orders = await this.limitOrderService.getOpenOrders(userId);
+        const asNumber = Number(arg);
+        const target = Number.isInteger(asNumber) && asNumber >= 1 && asNumber <= orders.length
+          ? orders[asNumber - 1]
+          : orders.find(o => o.id === arg);
+
+        if (!target) {
+          await this.bot.sendMessage(chatId, 'Order not found. Use /orders to see your open orders.');
+          return;
+        }
+
+        const ok = await this.limitOrderService.cancelOrder(userId, target.id);
+        await this.bot.sendMessage(chatId, ok ? `❎ Limit order cancelled (ID: ${target.id}).` : 'Order could not be cancelled; it may have already triggered.');
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to cancel order: ${e?.message || e}`);
+      }
+    });
+
+    // Create a DCA plan: /dca <amount> <from> to <to> <cadence> [until YYYY-MM-DD]
+    this.bot.onText(/^\/dca(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const raw = (match?.[1] || '').trim();
+      const usage = [
+        'Usage: /dca <amount> <from_token> to <to_token> <cadence> [until YYYY-MM-DD]',
+        '',
+        'Cadence: hourly, daily, weekly, biweekly, monthly or "every N days"',
+        '',
+        'Examples:',
+        '/dca 50 USDC to SOL weekly',
+        '/dca 0.5 SOL to JUP every 3 days until 2026-12-31',
+      ].join('\n');
+      const m = raw.match(/^(\d+(?:\.\d+)?)\s+([A-Za-z0-9_:\-\.]{2,})\s+(?:to|into|for)\s+([A-Za-z0-9_:\-\.]{2,})\s+(.+?)(?:\s+until\s+(\d{4}-\d{2}-\d{2}))?$/i);
+      if (!m) {
+        await this.bot.sendMessage(chatId, usage);
+        return;
+      }
+
+      const [, amtStr, fromTk, toTk, cadenceStr, untilStr] = m;
+      const amount = Number(amtStr);
+      const cadence = parseCadence(cadenceStr);
+      if (!amount || amount <= 0 || !cadence) {
+        await this.bot.sendMessage(chatId, usage);
+        return;
+      }
+      const endAt = untilStr ? new Date(`${untilStr}T23:59:59Z`) : undefined;
+      if (endAt && (Number.isNaN(endAt.getTime()) || endAt.getTime() <= Date.now())) {
+        await this.bot.sendMessage(chatId, 'The end date must be a valid date in the future.');
+        return;
+      }
+
+      try {
+        const primary = await this.walletService.getPrimaryWallet(userId);
+        if (!primary) {
+          await this.bot.sendMessage(chatId, 'No primary wallet found. Create a wallet first with "create wallet"');
+          return;
+        }
+        if (!(await this.resolveSwapSlippage(chatId, userId, toTk))) return;
+
+        await this.askToConfirm(chatId, userId, {
+          type: 'dca',
+          payload: { amount, from: fromTk, to: toTk, cadence: cadence.label, endAt: endAt?.toISOString() }
+        }, [
+          '⚠️ DCA Confirmation Required',
+          '',
+          `Swap: ${amount} ${fromTk.toUpperCase()} → ${toTk.toUpperCase()}`,
+          `Cadence: ${cadence.label}`,
+          `Ends: ${untilStr || 'when cancelled'}`,
+          `Wallet: ${primary.wallet_name} (${primary.public_key.slice(0,6)}...${primary.public_key.slice(-6)})`,
+          '',
+          'Each leg runs automatically from your primary wallet.',
+        ].join('\n'));
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to prepare DCA plan: ${e?.message || e}`);
+      }
+    });
+
+    // List active DCA plans
+    this.bot.onText(/^\/dca_list$/i, async (msg) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      try {
+        const plans = await this.dcaService.getActivePlans(userId);
+        if (!plans.length) {
+          await this.bot.sendMessage(chatId, 'You have no active DCA plans.\nExample: /dca 50 USDC to SOL weekly');
+          return;
+        }
+
+        const lines = plans.map((p, idx) => {
+          const until = p.end_at ? ` until ${String(p.end_at).slice(0, 10)}` : '';
+          const next = String(p.next_run_at).replace('T', ' ').slice(0, 16);
+          return `${idx + 1}. ${p.amount} ${p.input_symbol} → ${p.output_symbol}, ${p.cadence}${until}\n   Next run: ${next} UTC • Runs: ${p.runs_completed} ok, ${p.runs_failed} failed\n   ID: ${p.id}`;
+        });
+        await this.bot.sendMessage(chatId, `Active DCA plans:\n\n${lines.join('\n')}\n\nUse /dca_cancel <index|id> to stop a plan.`);
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to fetch DCA plans: ${e?.message || e}`);
+      }
+    });
+
+    // Cancel a DCA plan by index (from /dca_list) or id
+    this.bot.onText(/^\/dca_cancel(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const arg = (match?.[1] || '').trim();
+      if (!arg) {
+        await this.bot.sendMessage(chatId, 'Usage: /dca_cancel <plan_index|plan_id>');
+        return;
+      }
+
+      try {
+        const plans = await this.dcaService.getActivePlans(userId);
+        const asNumber = Number(arg);
+        const target = Number.isInteger(asNumber) && asNumber >= 1 && asNumber <= plans.length
+          ? plans[asNumber - 1]
+          : plans.find(p => p.id === arg);
+
+        if (!target) {
+          await this.bot.sendMessage(chatId, 'Plan not found. Use /dca_list to see your active plans.');
+          return;
+        }
+
+        const ok = await this.dcaService.cancelPlan(userId, target.id);
+        await this.bot.sendMessage(chatId, ok ? `❎ DCA plan cancelled (ID: ${target.id}).` : 'Plan could not be cancelled.');
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to cancel DCA plan: ${e?.message || e}`);
+      }
+    });
+
+    // Mute incoming transfer notifications below a USD value: /mute_dust <usd|off>
+    this.bot.onText(/^\/mute_dust(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const arg = (match?.[1] || '').trim();
+      try {
+        if (!arg) {
+          const prefs = await this.userService.getUserPreferences(userId);
+          const current = Number(prefs?.dust_threshold_usd || 0);
+          await this.bot.sendMessage(chatId, current > 0
+            ? `Incoming transfers worth less than $${current} (and unpriced tokens) are muted.\nUse /mute_dust off to hear about everything.`
+            : 'All incoming transfers are announced.\nUse /mute_dust <usd> (e.g. /mute_dust 1) to mute dust.');
+          return;
+        }
+
+        const threshold = /^(off|none|0)$/i.test(arg) ? 0 : parseUsdValue(arg);
+        if (threshold === null) {
+          await this.bot.sendMessage(chatId, 'Usage: /mute_dust <usd|off>  e.g. /mute_dust 0.5');
+          return;
+        }
+        await this.userService.updateUserPreferences(userId, { dust_threshold_usd: threshold });
+        await this.bot.sendMessage(chatId, threshold > 0
+          ? `🔕 Incoming transfers worth less than $${threshold} will no longer be announced. Unpriced tokens are muted too. They are still recorded in /history.`
+          : '🔔 All incoming transfers will be announced.');
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to update dust setting: ${e?.message || e}`);
+      }
+    });
+
+    // Auto-approve small sends and swaps: /auto_approve [on [max_sol] [daily_cap_sol] | off]
+    this.bot.onText(/^\/auto_approve(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const args = (match?.[1] || '').trim().split(/\s+/).filter(Boolean);
+      try {
+        const prefs = await this.userService.getUserPreferences(userId);
+        if (!args.length) {
+          await this.bot.sendMessage(chatId, prefs?.auto_approve_small_amounts
+            ? `⚡ Auto-approve is on: sends and swaps up to ${prefs.max_auto_approve_amount} SOL run without confirmation, up to ${prefs.auto_approve_daily_cap} SOL per 24h.\nUse /auto_approve off to disable.`
+            : 'Auto-approve is off; every send and swap asks for confirmation.\nUse /auto_approve on [max_sol] [daily_cap_sol], e.g. /auto_approve on 0.05 0.3');
+          return;
+        }
+
+        if (/^off$/i.test(args[0])) {
+          await this.userService.updateUserPreferences(userId, { auto_approve_small_amounts: false });
+          await this.bot.sendMessage(chatId, 'Auto-approve is off. Every send and swap asks for confirmation again.');
+          return;
+        }
+
+        const max = args[1] !== undefined ? Number(args[1]) : Number(prefs?.max_auto_approve_amount ?? 0.1);
+        const cap = args[2] !== undefined ? Number(args[2]) : Math.max(Number(prefs?.auto_approve_daily_cap ?? 0.5), max);
+        if (!/^on$/i.test(args[0]) || !(max > 0) || !(cap > 0) || cap < max) {
+          await this.bot.sendMessage(chatId, 'Usage: /auto_approve on [max_sol] [daily_cap_sol] | off\nThe daily cap must be at least the per-action limit.');
+          return;
+        }
+
+        // Turning this on weakens confirmations, so it needs the password or PIN when one is set
+        if (!(await this.verifyCurrentSecret(chatId, userId))) return;
+
+        await this.userService.updateUserPreferences(userId, {
+          auto_approve_small_amounts: true,
+          max_auto_approve_amount: max,
+          auto_approve_daily_cap: cap,
+        });
+        await this.bot.sendMessage(chatId, `⚡ Auto-approve is on: sends and swaps up to ${max} SOL run without confirmation, up to ${cap} SOL per 24h. You get a review message after each one.`);
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to update auto-approve: ${e?.message || e}`);
+      }
+    });
+
+    // Address book: /contacts
+    this.bot.onText(/^\/contacts$/i, async (msg) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      try {
+        await this.sendContactList(chatId, userId);
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to load contacts: ${e?.message || e}`);
+      }
+    });
+
+    // Transaction history: /history [type] [token] [page]
+    this.bot.onText(/^\/history(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      try {
+        const words = (match?.[1] || '').trim().split(/\s+/).filter(Boolean);
+        await this.sendHistory(chatId, userId, this.parseHistoryFilters(words));
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to fetch history: ${e?.message || e}`);
+      }
+    });
+
+    // List active price alerts
+    this.bot.onText(/^\/alerts$/i, async (msg) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      try {
+        const alerts = await this.alertService.getActiveAlerts(userId);
+        if (!alerts.length) {
+          await this.bot.sendMessage(chatId, 'You have no active alerts.\nExample: alert BONK above $0.00003');
+          return;
+        }
+
+        const prefs = await this.userService.getUserPreferences(userId);
+        const lines = alerts.map((a, idx) => {
+          const label = a.metric === 'mcap' ? 'mcap' : 'price';
+          const repeat = a.is_repeating ? `repeating, cooldown ${Math.round(Number(a.cooldown_seconds) / 60)} min` : 'one-shot';
+          return `${idx + 1}. ${a.token_symbol} ${label} ${a.alert_condition} $${Number(a.threshold).toLocaleString(undefined, { maximumSignificantDigits: 6 })} (${repeat})\n   ID: ${a.id}`;
+        });
+        const muted = prefs && !prefs.notifications_enabled ? '\n\n⚠️ Notifications are disabled for your account, so alerts will not fire.' : '';
+        await this.bot.sendMessage(chatId, `Active alerts:\n\n${lines.join('\n')}${muted}\n\nUse /alert_cancel <index|id> to remove one.`);
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to fetch alerts: ${e?.message || e}`);
+      }
+    });
+
+    // Cancel a price alert by index (from /alerts) or id
+    this.bot.onText(/^\/alert_cancel(?:\s+(.+))?$/i, async (msg, match) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
+
+      const userId = BigInt(from.id);
+      const arg = (match?.[1] || '').trim();
+      if (!arg) {
+        await this.bot.sendMessage(chatId, 'Usage: /alert_cancel <alert_index|alert_id>');
+        return;
+      }
+
+      try {
+        const alerts = await this.alertService.getActiveAlerts(userId);
+        const asNumber = Number(arg);
+        const target = Number.isInteger(asNumber) && asNumber >= 1 && asNumber <= alerts.length
+          ? alerts[asNumber - 1]
+          : alerts.find(a => a.id === arg);
+
+        if (!target) {
+          await this.bot.sendMessage(chatId, 'Alert not found. Use /alerts to see your active alerts.');
+          return;
+        }
+
+        const ok = await this.alertService.cancelAlert(userId, target.id);
+        await this.bot.sendMessage(chatId, ok ? `❎ Alert removed (ID: ${target.id}).` : 'Alert could not be removed.');
+      } catch (e: any) {
+        await this.bot.sendMessage(chatId, `Failed to remove alert: ${e?.message || e}`);
+      }
+    });
+
     // Set password (stored hashed in user_secrets)
     this.bot.onText(/^\/set_password$/, async (msg) => {
       const chatId = msg.chat.id;
@@ -1564,37 +3689,52 @@ export class TelegramBotRunner {
       if (!from) return;
 
       const userId = BigInt(from.id);
-      const opts: SendMessageOptions = {
-        reply_markup: { force_reply: true, selective: true },
-      };
+      try {
+        if (!(await this.verifyCurrentSecret(chatId, userId))) return;
 
-      const info = [
-        'Set a password for your account (stored hashed).',
-        'This is not used for encryption anymore, but can be used for confirmations or future UX flows.',
-        'Avoid sharing sensitive passwords used elsewhere.'
-      ].join('\n');
-      await this.bot.sendMessage(chatId, info);
-      const prompt = await this.bot.sendMessage(chatId, 'Enter a new password:', opts);
+        const info = [
+          'Set a password for your account (stored hashed).',
+          'It is not used for encryption, but it is required for /export_wallet and for confirming high-value actions.',
+          'Avoid sharing sensitive passwords used elsewhere.'
+        ].join('\n');
+        await this.bot.sendMessage(chatId, info);
 
-      const replyListener = async (answerMsg: TelegramBot.Message) => {
-        try {
-          if (!answerMsg.reply_to_message || answerMsg.reply_to_message.message_id !== prompt.message_id) return;
-          this.bot.removeListener('message', replyListener);
+        const password = await this.promptSecret(chatId, userId, 'Enter a new password:');
+        if (password.length < 8) {
+          await this.bot.sendMessage(chatId, 'Password too short. Please run /set_password again (min 8 chars).');
+          return;
+        }
 
-          const password = (answerMsg.text || '').trim();
-          if (password.length < 8) {
-            await this.bot.sendMessage(chatId, 'Password too short. Please run /set_password again (min 8 chars).');
-            return;
-          }
+        await this.userService.setUserPassword(userId, password);
+        await this.bot.sendMessage(chatId, '✅ Password set successfully.');
+      } catch (err) {
+        if (err instanceof PromptCancelledError) return;
+        await this.bot.sendMessage(chatId, `Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    });
+
+    // Set PIN, accepted instead of the password when confirming high-value actions
+    this.bot.onText(/^\/set_pin$/, async (msg) => {
+      const chatId = msg.chat.id;
+      const from = msg.from;
+      if (!from) return;
 
-          await this.userService.setUserPassword(userId, password);
-          await this.bot.sendMessage(chatId, '✅ Password set successfully.');
-        } catch (err) {
-          await this.bot.sendMessage(chatId, `Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      const userId = BigInt(from.id);
+      try {
+        if (!(await this.verifyCurrentSecret(chatId, userId))) return;
+
+        const pin = await this.promptSecret(chatId, userId, 'Enter a new PIN (4-8 digits):');
+        if (!/^\d{4,8}$/.test(pin)) {
+          await this.bot.sendMessage(chatId, 'A PIN must be 4 to 8 digits. Please run /set_pin again.');
+          return;
         }
-      };
 
-      this.bot.on('message', replyListener);
+        await this.userService.setUserPin(userId, pin);
+        await this.bot.sendMessage(chatId, `✅ PIN set. Sends, swaps, offramps, limit orders and DCA plans over $${this.actionGuard.getThresholdUsd()} will ask for it.`);
+      } catch (err) {
+        if (err instanceof PromptCancelledError) return;
+        await this.bot.sendMessage(chatId, `Error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
     });
   }
 }
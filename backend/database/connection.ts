@@ -66,6 +66,8 @@ export class DatabaseManager {
         await this.client.execute(stmt);
       }
 
+      await this.migrate(statements);
+
       console.log('Database schema initialized successfully (LibSQL)');
       this.initialized = true;
     } catch (error) {
@@ -74,6 +76,46 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Upgrades tables created by older versions of schema.sql
+   */
+  private async migrate(statements: string[]): Promise<void> {
+    // SQLite cannot alter a CHECK constraint, so rebuild transactions when its type list is outdated
+    const txTable = await this.get<{ sql: string }>(
+      `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'transactions'`
+    );
+    if (txTable && !String(txTable.sql).includes("'offramp'")) {
+      const createTx = statements.find(s => /CREATE TABLE IF NOT EXISTS transactions\s*\(/i.test(s));
+      if (!createTx) throw new Error('transactions table missing from schema.sql');
+      const columns = 'id, wallet_id, signature, transaction_type, amount, token_mint, status, metadata, created_at, confirmed_at';
+
+      await this.transaction(async () => {
+        await this.run(createTx.replace(/CREATE TABLE IF NOT EXISTS transactions\s*\(/i, 'CREATE TABLE transactions_new ('));
+        await this.run(`INSERT INTO transactions_new (${columns}) SELECT ${columns} FROM transactions`);
+        await this.run('DROP TABLE transactions');
+        await this.run('ALTER TABLE transactions_new RENAME TO transactions');
+        // Indexes are dropped with the old table
+        for (const stmt of statements.filter(s => /CREATE INDEX .* ON transactions\(/i.test(s))) {
+          await this.run(stmt);
+        }
+      });
+      console.log('Migrated transactions table to the current transaction types');
+    }
+
+    await this.addColumnIfMissing('user_preferences', 'dust_threshold_usd', 'DECIMAL(20, 2) DEFAULT 0');
+    await this.addColumnIfMissing('user_preferences', 'auto_approve_daily_cap', 'DECIMAL(20, 9) DEFAULT 0.5');
+    await this.addColumnIfMissing('wallets', 'key_version', 'INTEGER NOT NULL DEFAULT 1');
+    await this.addColumnIfMissing('wallets', 'key_derivation', `TEXT NOT NULL DEFAULT 'global'`);
+    await this.addColumnIfMissing('wallets', 'archived_at', 'TIMESTAMP');
+    await this.addColumnIfMissing('wallet_scan_state', 'scanned_at', 'TIMESTAMP');
+  }
+
+  private async addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+    const columns = await this.all<{ name: string }>(`PRAGMA table_info(${table})`);
+    if (columns.some(c => c.name === column)) return;
+    await this.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+
   async run(sql: string, params: InValue[] = []): Promise<void> {
     await this.client.execute({ sql, args: params });
   }
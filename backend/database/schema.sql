@@ -24,6 +24,16 @@ CREATE TABLE IF NOT EXISTS user_secrets (
     FOREIGN KEY (user_id) REFERENCES users(telegram_id) ON DELETE CASCADE
 );
 
+-- User PINs - optional short code accepted instead of the password for confirmations
+CREATE TABLE IF NOT EXISTS user_pins (
+    user_id BIGINT PRIMARY KEY,
+    pin_hash TEXT NOT NULL,
+    pin_salt TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(telegram_id) ON DELETE CASCADE
+);
+
 -- Wallets table - stores encrypted Solana wallets for users
 CREATE TABLE IF NOT EXISTS wallets (
     id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
@@ -33,8 +43,11 @@ CREATE TABLE IF NOT EXISTS wallets (
     iv TEXT NOT NULL, -- hex IV for AES-GCM
     salt TEXT NOT NULL, -- hex PBKDF2 salt
     tag TEXT NOT NULL, -- hex auth tag
+    key_version INTEGER NOT NULL DEFAULT 1, -- master key version the row is encrypted under
+    key_derivation TEXT NOT NULL DEFAULT 'global' CHECK (key_derivation IN ('global', 'user')), -- see WalletEncryption
     wallet_name VARCHAR(255) DEFAULT 'Main Wallet',
     is_primary BOOLEAN DEFAULT false,
+    archived_at TIMESTAMP, -- archived wallets are hidden from /wallets but keep their transaction history
     balance_sol DECIMAL(20, 9) DEFAULT 0,
     last_balance_update TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -57,7 +70,7 @@ CREATE TABLE IF NOT EXISTS transactions (
     id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
     wallet_id TEXT NOT NULL,
     signature VARCHAR(88) UNIQUE, -- Base58 encoded transaction signature
-    transaction_type VARCHAR(20) NOT NULL CHECK (transaction_type IN ('send', 'receive', 'swap', 'token_launch')),
+    transaction_type VARCHAR(20) NOT NULL CHECK (transaction_type IN ('send', 'receive', 'swap', 'offramp', 'onramp', 'token_launch')),
     amount DECIMAL(20, 9) NOT NULL,
     token_mint VARCHAR(44), -- Token mint address (null for SOL)
     status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'failed')),
@@ -67,14 +80,127 @@ CREATE TABLE IF NOT EXISTS transactions (
     FOREIGN KEY (wallet_id) REFERENCES wallets(id) ON DELETE CASCADE
 );
 
+-- Wallet scan state - last signature seen by the incoming transfer watcher
+CREATE TABLE IF NOT EXISTS wallet_scan_state (
+    wallet_id TEXT PRIMARY KEY,
+    last_signature VARCHAR(88), -- null when the wallet had no history on its first scan
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    scanned_at TIMESTAMP, -- end of the last complete pass over the wallet and its token accounts
+    FOREIGN KEY (wallet_id) REFERENCES wallets(id) ON DELETE CASCADE
+);
+
+-- Token account scan state - last signature seen per SPL token account of a watched wallet
+CREATE TABLE IF NOT EXISTS token_account_scan_state (
+    account TEXT PRIMARY KEY,
+    wallet_id TEXT NOT NULL,
+    last_signature VARCHAR(88),
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (wallet_id) REFERENCES wallets(id) ON DELETE CASCADE
+);
+
+-- Security audit log - sensitive actions such as key exports, including failed attempts
+CREATE TABLE IF NOT EXISTS security_audit_log (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id BIGINT NOT NULL,
+    event VARCHAR(40) NOT NULL,
+    wallet_id TEXT,
+    success BOOLEAN NOT NULL,
+    details TEXT, -- JSON string, never secrets
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(telegram_id) ON DELETE CASCADE
+);
+
+-- Limit orders table - swaps that execute automatically once a price trigger fires
+CREATE TABLE IF NOT EXISTS limit_orders (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id BIGINT NOT NULL,
+    chat_id BIGINT NOT NULL, -- Telegram chat to notify when the order fills
+    side VARCHAR(4) NOT NULL CHECK (side IN ('buy', 'sell')),
+    input_mint VARCHAR(44) NOT NULL, -- Token spent when the order fills
+    input_symbol VARCHAR(32) NOT NULL,
+    output_mint VARCHAR(44) NOT NULL, -- Token received when the order fills
+    output_symbol VARCHAR(32) NOT NULL,
+    amount DECIMAL(20, 9) NOT NULL, -- Amount of input token to swap
+    watch_mint VARCHAR(44) NOT NULL, -- Token whose USD price is watched
+    watch_symbol VARCHAR(32) NOT NULL,
+    trigger_condition VARCHAR(5) NOT NULL CHECK (trigger_condition IN ('below', 'above')),
+    trigger_price DECIMAL(30, 12) NOT NULL, -- USD price
+    status VARCHAR(20) DEFAULT 'open' CHECK (status IN ('open', 'triggered', 'filled', 'failed', 'cancelled')),
+    signature VARCHAR(88), -- Swap signature once filled
+    error TEXT, -- Failure reason when status = 'failed'
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    filled_at TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(telegram_id) ON DELETE CASCADE
+);
+
+-- DCA plans table - recurring swaps executed on a fixed cadence
+CREATE TABLE IF NOT EXISTS dca_plans (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id BIGINT NOT NULL,
+    chat_id BIGINT NOT NULL, -- Telegram chat to notify after each leg
+    input_mint VARCHAR(44) NOT NULL, -- Token spent on every leg
+    input_symbol VARCHAR(32) NOT NULL,
+    output_mint VARCHAR(44) NOT NULL, -- Token bought on every leg
+    output_symbol VARCHAR(32) NOT NULL,
+    amount DECIMAL(20, 9) NOT NULL, -- Amount of input token per leg
+    cadence VARCHAR(20) NOT NULL, -- Human readable cadence (daily, weekly, every 3 days, ...)
+    interval_seconds INTEGER NOT NULL,
+    next_run_at TIMESTAMP NOT NULL,
+    end_at TIMESTAMP, -- No more legs are scheduled after this time (null = until cancelled)
+    status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+    runs_completed INTEGER DEFAULT 0,
+    runs_failed INTEGER DEFAULT 0,
+    last_run_at TIMESTAMP,
+    last_signature VARCHAR(88),
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(telegram_id) ON DELETE CASCADE
+);
+
+-- Price alerts table - price / market cap thresholds that notify the user's chat
+CREATE TABLE IF NOT EXISTS price_alerts (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id BIGINT NOT NULL,
+    chat_id BIGINT NOT NULL, -- Telegram chat to notify
+    token_mint VARCHAR(44) NOT NULL,
+    token_symbol VARCHAR(32) NOT NULL,
+    metric VARCHAR(10) NOT NULL CHECK (metric IN ('price', 'mcap')), -- USD price or market cap
+    alert_condition VARCHAR(5) NOT NULL CHECK (alert_condition IN ('above', 'below')),
+    threshold DECIMAL(30, 12) NOT NULL, -- USD
+    is_repeating BOOLEAN DEFAULT false, -- One-shot alerts stop after the first trigger
+    cooldown_seconds INTEGER DEFAULT 3600, -- Minimum time between repeated triggers
+    status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'triggered', 'cancelled')),
+    trigger_count INTEGER DEFAULT 0,
+    last_triggered_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(telegram_id) ON DELETE CASCADE
+);
+
+-- Contacts table - per-user address book so sends can name a recipient instead of pasting an address
+CREATE TABLE IF NOT EXISTS contacts (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id BIGINT NOT NULL,
+    name VARCHAR(32) NOT NULL, -- stored lowercase
+    address VARCHAR(44) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, name),
+    FOREIGN KEY (user_id) REFERENCES users(telegram_id) ON DELETE CASCADE
+);
+
 -- User preferences table - stores user settings and preferences
 CREATE TABLE IF NOT EXISTS user_preferences (
     user_id BIGINT PRIMARY KEY,
     notifications_enabled BOOLEAN DEFAULT true,
     auto_approve_small_amounts BOOLEAN DEFAULT false,
-    max_auto_approve_amount DECIMAL(20, 9) DEFAULT 0.1,
+    max_auto_approve_amount DECIMAL(20, 9) DEFAULT 0.1, -- SOL value per auto-approved send or swap
+    auto_approve_daily_cap DECIMAL(20, 9) DEFAULT 0.5, -- SOL value auto-approved per rolling 24 hours
     preferred_slippage DECIMAL(5, 2) DEFAULT 1.0, -- Percentage
     risk_tolerance VARCHAR(10) DEFAULT 'medium' CHECK (risk_tolerance IN ('low', 'medium', 'high')),
+    dust_threshold_usd DECIMAL(20, 2) DEFAULT 0, -- incoming transfers worth less than this are not announced
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (user_id) REFERENCES users(telegram_id) ON DELETE CASCADE
@@ -90,6 +216,16 @@ CREATE INDEX IF NOT EXISTS idx_transactions_wallet_id ON transactions(wallet_id)
 CREATE INDEX IF NOT EXISTS idx_transactions_signature ON transactions(signature);
 CREATE INDEX IF NOT EXISTS idx_transactions_status ON transactions(status);
 CREATE INDEX IF NOT EXISTS idx_transactions_created_at ON transactions(created_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(transaction_type);
+CREATE INDEX IF NOT EXISTS idx_security_audit_log_user_event ON security_audit_log(user_id, event, created_at);
+CREATE INDEX IF NOT EXISTS idx_limit_orders_user_id ON limit_orders(user_id);
+CREATE INDEX IF NOT EXISTS idx_limit_orders_status ON limit_orders(status);
+CREATE INDEX IF NOT EXISTS idx_dca_plans_user_id ON dca_plans(user_id);
+CREATE INDEX IF NOT EXISTS idx_dca_plans_status ON dca_plans(status);
+CREATE INDEX IF NOT EXISTS idx_price_alerts_user_id ON price_alerts(user_id);
+CREATE INDEX IF NOT EXISTS idx_price_alerts_status ON price_alerts(status);
+CREATE INDEX IF NOT EXISTS idx_contacts_address ON contacts(user_id, address);
+CREATE INDEX IF NOT EXISTS idx_token_account_scan_state_wallet ON token_account_scan_state(wallet_id);
 
 -- Triggers to update timestamps
 CREATE TRIGGER IF NOT EXISTS update_users_timestamp 
@@ -110,6 +246,30 @@ CREATE TRIGGER IF NOT EXISTS update_preferences_timestamp
         UPDATE user_preferences SET updated_at = CURRENT_TIMESTAMP WHERE user_id = NEW.user_id;
     END;
 
+CREATE TRIGGER IF NOT EXISTS update_limit_orders_timestamp
+    AFTER UPDATE ON limit_orders
+    BEGIN
+        UPDATE limit_orders SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_dca_plans_timestamp
+    AFTER UPDATE ON dca_plans
+    BEGIN
+        UPDATE dca_plans SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_price_alerts_timestamp
+    AFTER UPDATE ON price_alerts
+    BEGIN
+        UPDATE price_alerts SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER IF NOT EXISTS update_contacts_timestamp
+    AFTER UPDATE ON contacts
+    BEGIN
+        UPDATE contacts SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+    END;
+
 CREATE TRIGGER IF NOT EXISTS update_user_secrets_timestamp 
     AFTER UPDATE ON user_secrets
     BEGIN
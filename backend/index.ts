@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import { db } from './database/connection';
 import { TelegramBotRunner } from './bot/bot';
+import { KeyRotationService } from './services/key-rotation';
 
 async function bootstrap() {
   dotenv.config();
@@ -8,6 +9,14 @@ async function bootstrap() {
   // Initialize database schema (LibSQL)
   await db.initialize();
 
+  // Move wallets still on the shared global key to per-user keys
+  try {
+    const { rotated } = await new KeyRotationService().migrateLegacyWallets();
+    if (rotated) console.log(`Migrated ${rotated} wallets to per-user encryption keys`);
+  } catch (error) {
+    console.error('Wallet key migration failed; legacy wallets stay on the global key:', error);
+  }
+
   // Start Telegram bot
   new TelegramBotRunner();
   console.log('Backend initialized. Telegram bot is running.');
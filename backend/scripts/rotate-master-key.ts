@@ -0,0 +1,85 @@
+import 'dotenv/config';
+import crypto from 'node:crypto';
+import { db } from '../database/connection';
+import { KeyRotationService } from '../services/key-rotation';
+
+// Usage:
+//   npm run backend:rotate-key -- --generate   print a fresh master key
+//   npm run backend:rotate-key -- --verify     check every wallet decrypts with the configured keys
+//   npm run backend:rotate-key -- --migrate    move wallets on the shared global key to per-user keys
+//   NEW_ENCRYPTION_MASTER_KEY=... npm run backend:rotate-key
+
+async function verify(service: KeyRotationService): Promise<boolean> {
+  const report = await service.verifyAll();
+  console.log(`Wallets: ${report.total}`);
+  for (const [version, count] of Object.entries(report.byVersion)) {
+    console.log(`  key version ${version}: ${count}`);
+  }
+  for (const failure of report.failures) {
+    console.error(`  FAILED ${failure.walletId} (${failure.publicKey}) v${failure.keyVersion}: ${failure.error}`);
+  }
+  return report.failures.length === 0;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--generate')) {
+    console.log(`NEW_ENCRYPTION_MASTER_KEY=${crypto.randomBytes(32).toString('hex')}`);
+    return;
+  }
+
+  await db.initialize();
+  const service = new KeyRotationService();
+
+  if (args.includes('--verify')) {
+    const ok = await verify(service);
+    console.log(ok ? 'All wallets decrypt.' : 'Some wallets failed to decrypt.');
+    process.exit(ok ? 0 : 1);
+  }
+
+  if (args.includes('--migrate')) {
+    const report = await service.migrateLegacyWallets();
+    console.log(`Moved ${report.rotated} wallets to per-user keys (key version ${report.newVersion}).`);
+    process.exit(0);
+  }
+
+  const masterKey = process.env.NEW_ENCRYPTION_MASTER_KEY;
+  if (!masterKey) {
+    console.error('Missing NEW_ENCRYPTION_MASTER_KEY. Run with --generate to create one.');
+    process.exit(1);
+  }
+
+  // Refuse to start from a broken state; the rotation would roll back anyway
+  console.log('Checking existing wallets...');
+  if (!(await verify(service))) {
+    console.error('Fix the keys above before rotating.');
+    process.exit(1);
+  }
+
+  console.log('Re-encrypting wallets...');
+  const report = await service.rotate({ masterKey });
+  console.log(`Rotated ${report.rotated} wallets to key version ${report.newVersion}.`);
+  for (const [version, count] of Object.entries(report.fromVersions)) {
+    console.log(`  from version ${version}: ${count}`);
+  }
+
+  const oldVersion = Number(process.env.ENCRYPTION_KEY_VERSION || 1);
+  console.log(`
+Update the environment of every process that reads wallets, then restart them:
+
+  ENCRYPTION_MASTER_KEY=<NEW_ENCRYPTION_MASTER_KEY>
+  ENCRYPTION_KEY_VERSION=${report.newVersion}
+
+Keep the previous key available as ENCRYPTION_MASTER_KEY_V${oldVersion} until --verify reports
+no wallets on older versions, then remove it. ENCRYPTION_SALT_HEX is no longer needed.
+
+Processes still running with the old environment cannot read version ${report.newVersion} wallets. To avoid that
+window, set ENCRYPTION_MASTER_KEY_V${report.newVersion} on them before rotating.`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Key rotation failed, no wallets were changed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
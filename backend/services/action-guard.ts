@@ -0,0 +1,203 @@
+import { PortfolioService } from './portfolio';
+import { SwapService } from './swap';
+import { UserService } from './user';
+import { AuditService } from './audit';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const DEFAULT_THRESHOLD_USD = 100;
+const DEFAULT_MAX_FAILURES = 5;
+const DEFAULT_LOCKOUT_MINUTES = 15;
+
+/**
+ * A pending bot action that moves funds
+ */
+export type GuardedAction = { type: 'send' | 'swap' | 'offramp' | 'batch_send' | 'limit_order' | 'dca'; payload: any };
+
+export type GuardDecision = {
+  required: boolean; // a password or PIN must be entered before executing
+  blocked: boolean; // over the threshold with no password or PIN set, so it cannot be confirmed at all
+  overThreshold: boolean;
+  usd: number | null; // estimated value, null when no price was found
+  thresholdUsd: number;
+  hasSecret: boolean;
+};
+
+export type AutoApproveDecision = {
+  approved: boolean;
+  reason?: 'disabled' | 'high_value' | 'unpriced' | 'over_limit' | 'daily_cap';
+  valueSol?: number;
+  maxSol?: number;
+  usedTodaySol?: number;
+  dailyCapSol?: number;
+  reservationId?: string; // audit row holding the approved value against the daily cap
+};
+
+export type SecretCheck = {
+  ok: boolean;
+  attemptsLeft: number;
+};
+
+export class ActionGuardService {
+  private portfolioService: PortfolioService;
+  private swapService: SwapService;
+  private userService = new UserService();
+  private auditService = new AuditService();
+
+  constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com') {
+    this.portfolioService = new PortfolioService(rpcUrl);
+    this.swapService = new SwapService(rpcUrl);
+  }
+
+  getThresholdUsd(): number {
+    return Number(process.env.HIGH_VALUE_CONFIRM_USD || DEFAULT_THRESHOLD_USD);
+  }
+
+  private getMaxFailures(): number {
+    return Number(process.env.HIGH_VALUE_MAX_FAILURES || DEFAULT_MAX_FAILURES);
+  }
+
+  getLockoutMinutes(): number {
+    return Number(process.env.HIGH_VALUE_LOCKOUT_MINUTES || DEFAULT_LOCKOUT_MINUTES);
+  }
+
+  /**
+   * Estimates the USD value leaving the wallet, or null when the input token has no price.
+   * A DCA plan is valued per leg, since each leg is a separate swap.
+   */
+  async estimateUsd(action: GuardedAction): Promise<number | null> {
+    if (action.type === 'batch_send') return this.estimateBatchUsd(action.payload?.totals || []);
+    const { amount } = action.payload || {};
+    if (typeof amount !== 'number' || !(amount > 0)) return null;
+
+    let mint: string | undefined;
+    if (action.type === 'send') {
+      mint = action.payload.mint || SOL_MINT; // SPL sends carry their mint
+    } else if (action.type === 'swap' && action.payload.token) {
+      mint = SOL_MINT;
+    } else if (action.type === 'swap' && action.payload.from) {
+      try {
+        mint = (await this.swapService.resolveTokenInfo(action.payload.from)).address;
+      } catch {
+        return null;
+      }
+    } else if (action.type === 'offramp') {
+      mint = action.payload.mint;
+    } else if (action.type === 'limit_order' || action.type === 'dca') {
+      // Buy orders spend the quote token; sell orders and DCA legs spend the first token
+      const input = action.type === 'dca' ? action.payload.from : action.payload.side === 'buy' ? action.payload.quoteToken : action.payload.token;
+      try {
+        mint = (await this.swapService.resolveTokenInfo(input)).address;
+      } catch {
+        return null;
+      }
+    }
+    if (!mint) return null;
+
+    const prices = await this.portfolioService.getPrices([mint], mint === SOL_MINT);
+    return prices[mint] !== undefined ? amount * prices[mint] : null;
+  }
+
+  /**
+   * Sums a batch's per-token totals in USD, or null when any token has no price
+   */
+  private async estimateBatchUsd(totals: Array<{ mint?: string; amount: number }>): Promise<number | null> {
+    if (totals.length === 0) return null;
+    const mints = totals.map(t => t.mint || SOL_MINT);
+    const prices = await this.portfolioService.getPrices(mints, mints.includes(SOL_MINT));
+    let usd = 0;
+    for (const t of totals) {
+      const price = prices[t.mint || SOL_MINT];
+      if (price === undefined) return null;
+      usd += t.amount * price;
+    }
+    return usd;
+  }
+
+  /**
+   * Decides whether an action needs a password or PIN. Unpriced actions count as over the threshold, and
+   * over-threshold actions are blocked until the user has set one.
+   */
+  async evaluate(userId: bigint, action: GuardedAction): Promise<GuardDecision> {
+    const thresholdUsd = this.getThresholdUsd();
+    const usd = await this.estimateUsd(action);
+    const overThreshold = usd === null || usd >= thresholdUsd;
+    const hasSecret = (await this.userService.hasPassword(userId)) || (await this.userService.hasPin(userId));
+    return { required: overThreshold && hasSecret, blocked: overThreshold && !hasSecret, overThreshold, usd, thresholdUsd, hasSecret };
+  }
+
+  /**
+   * Estimates the SOL value leaving the wallet, or null when it cannot be priced
+   */
+  async estimateSol(action: GuardedAction): Promise<number | null> {
+    const { amount } = action.payload || {};
+    if (typeof amount !== 'number' || !(amount > 0)) return null;
+    if ((action.type === 'send' && !action.payload.mint) || (action.type === 'swap' && action.payload.token)) return amount;
+    if (action.type === 'swap' && typeof action.payload.from === 'string' && action.payload.from.toLowerCase() === 'sol') return amount;
+
+    const usd = await this.estimateUsd(action);
+    if (usd === null) return null;
+    const solPrice = (await this.portfolioService.getPrices([SOL_MINT]))[SOL_MINT];
+    return solPrice ? usd / solPrice : null;
+  }
+
+  /**
+   * Decides whether a send or swap may skip the confirm step under the user's auto-approve preferences.
+   * Never approves anything that would need a password or PIN. An approval reserves its value against the
+   * daily cap; call releaseAutoApproval when the action then does not run.
+   */
+  async checkAutoApprove(userId: bigint, action: GuardedAction): Promise<AutoApproveDecision> {
+    if (action.type !== 'send' && action.type !== 'swap') return { approved: false, reason: 'disabled' };
+    const prefs = await this.userService.getUserPreferences(userId);
+    if (!prefs?.auto_approve_small_amounts) return { approved: false, reason: 'disabled' };
+
+    const guard = await this.evaluate(userId, action);
+    if (guard.overThreshold) return { approved: false, reason: guard.usd === null ? 'unpriced' : 'high_value' };
+
+    const valueSol = await this.estimateSol(action);
+    if (valueSol === null) return { approved: false, reason: 'unpriced' };
+
+    const maxSol = Number(prefs.max_auto_approve_amount || 0);
+    const dailyCapSol = Number(prefs.auto_approve_daily_cap || 0);
+    const usedTodaySol = await this.auditService.sumRecent(userId, 'auto_approve', 'valueSol', 24 * 60 * 60);
+    const decision = { valueSol, maxSol, usedTodaySol, dailyCapSol };
+
+    if (valueSol > maxSol) return { approved: false, reason: 'over_limit', ...decision };
+    if (usedTodaySol + valueSol > dailyCapSol) return { approved: false, reason: 'daily_cap', ...decision };
+
+    // Another message may have used the cap since the sum above, so the reservation checks it again atomically
+    const reservationId = await this.auditService.recordWithinCap(userId, 'auto_approve', 'valueSol', valueSol, dailyCapSol, 24 * 60 * 60, {
+      details: { action: action.type, payload: action.payload },
+    });
+    if (!reservationId) {
+      const usedNow = await this.auditService.sumRecent(userId, 'auto_approve', 'valueSol', 24 * 60 * 60);
+      return { approved: false, reason: 'daily_cap', ...decision, usedTodaySol: usedNow };
+    }
+    return { approved: true, ...decision, reservationId };
+  }
+
+  /**
+   * Gives back the daily cap reserved for an auto-approved action that was not executed
+   */
+  async releaseAutoApproval(reservationId: string): Promise<void> {
+    await this.auditService.markFailed(reservationId, 'not_executed');
+  }
+
+  /**
+   * True while the user has too many recent wrong passwords or PINs
+   */
+  async isLockedOut(userId: bigint): Promise<boolean> {
+    const failures = await this.auditService.countRecent(userId, 'action_confirm', false, this.getLockoutMinutes() * 60);
+    return failures >= this.getMaxFailures();
+  }
+
+  /**
+   * Checks a password or PIN and records the attempt in the audit log
+   */
+  async verifySecret(userId: bigint, input: string, details: Record<string, any> = {}): Promise<SecretCheck> {
+    const ok = (await this.userService.verifyUserPassword(userId, input)) || (await this.userService.verifyUserPin(userId, input));
+    await this.auditService.record(userId, 'action_confirm', ok, { details });
+
+    const failures = ok ? 0 : await this.auditService.countRecent(userId, 'action_confirm', false, this.getLockoutMinutes() * 60);
+    return { ok, attemptsLeft: Math.max(0, this.getMaxFailures() - failures) };
+  }
+}
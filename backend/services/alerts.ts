@@ -0,0 +1,215 @@
+import axios from 'axios';
+import { db } from '../database/connection';
+import { PriceAlert } from '../types';
+import { SwapService } from './swap';
+import { PortfolioService } from './portfolio';
+import crypto from 'crypto';
+
+const DEXSCREENER_TOKENS_URL = 'https://api.dexscreener.com/latest/dex/tokens';
+const DEXSCREENER_BATCH_SIZE = 30; // max addresses per DexScreener request
+const DEFAULT_POLL_INTERVAL_MS = 60000;
+const DEFAULT_COOLDOWN_SECONDS = 60 * 60;
+
+export type AlertTrigger = {
+  alert: PriceAlert;
+  value: number;
+};
+
+/**
+ * Parses a USD figure with an optional k/m/b suffix ("0.00003", "$1.5M", "250k")
+ */
+export function parseUsdValue(text: string): number | null {
+  const m = text.trim().replace(/,/g, '').match(/^\$?(\d+(?:\.\d+)?(?:e-?\d+)?)\s*([kmb])?$/i);
+  if (!m) return null;
+  const multipliers: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+  const value = Number(m[1]) * (m[2] ? multipliers[m[2].toLowerCase()] : 1);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Parses a cooldown such as "30m", "2h" or "1d" into seconds
+ */
+export function parseCooldown(text: string): number | null {
+  const m = text.trim().match(/^(\d+)\s*(m|min|mins|minutes?|h|hours?|d|days?)$/i);
+  if (!m) return null;
+  const n = Number(m[1]);
+  if (!n) return null;
+  const unit = m[2].toLowerCase();
+  if (unit.startsWith('m')) return n * 60;
+  if (unit.startsWith('h')) return n * 60 * 60;
+  return n * 24 * 60 * 60;
+}
+
+export class AlertService {
+  private swapService: SwapService;
+  private portfolioService: PortfolioService;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com') {
+    this.swapService = new SwapService(rpcUrl);
+    this.portfolioService = new PortfolioService(rpcUrl);
+  }
+
+  /**
+   * Creates an active alert. Repeating alerts fire at most once per cooldown.
+   */
+  async createAlert(params: {
+    userId: bigint;
+    chatId: number;
+    token: string;
+    metric: PriceAlert['metric'];
+    condition: PriceAlert['alert_condition'];
+    threshold: number;
+    repeating?: boolean;
+    cooldownSeconds?: number;
+  }): Promise<PriceAlert> {
+    const { userId, chatId, metric, condition, threshold } = params;
+    if (!threshold || threshold <= 0) throw new Error('Threshold must be > 0');
+
+    const token = await this.swapService.resolveTokenInfo(params.token);
+    const alertId = crypto.randomUUID();
+    await db.run(
+      `INSERT INTO price_alerts (id, user_id, chat_id, token_mint, token_symbol, metric, alert_condition,
+         threshold, is_repeating, cooldown_seconds)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        alertId,
+        userId.toString(),
+        chatId,
+        token.address,
+        token.symbol,
+        metric,
+        condition,
+        threshold,
+        !!params.repeating,
+        params.cooldownSeconds || DEFAULT_COOLDOWN_SECONDS
+      ]
+    );
+
+    const alert = await db.get<PriceAlert>('SELECT * FROM price_alerts WHERE id = ?', [alertId]);
+    if (!alert) throw new Error('Failed to retrieve created alert');
+    return alert;
+  }
+
+  /**
+   * Gets a user's active alerts, oldest first
+   */
+  async getActiveAlerts(userId: bigint): Promise<PriceAlert[]> {
+    return db.all<PriceAlert>(
+      `SELECT * FROM price_alerts WHERE user_id = ? AND status = 'active' ORDER BY created_at ASC`,
+      [userId.toString()]
+    );
+  }
+
+  /**
+   * Cancels an active alert
+   */
+  async cancelAlert(userId: bigint, alertId: string): Promise<boolean> {
+    const alert = await db.get<PriceAlert>(
+      `SELECT * FROM price_alerts WHERE id = ? AND user_id = ? AND status = 'active'`,
+      [alertId, userId.toString()]
+    );
+    if (!alert) return false;
+
+    await db.run(`UPDATE price_alerts SET status = 'cancelled' WHERE id = ?`, [alertId]);
+    return true;
+  }
+
+  /**
+   * Starts the background evaluator. `onTrigger` is called for every alert that fires.
+   */
+  start(
+    onTrigger: (trigger: AlertTrigger) => Promise<void>,
+    intervalMs: number = Number(process.env.ALERT_POLL_MS || DEFAULT_POLL_INTERVAL_MS)
+  ): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkAlerts(onTrigger).catch((error) => {
+        console.error('Error checking price alerts:', error);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Fetches market caps (USD) keyed by mint, using the most liquid DexScreener pair like `tokenInfo` does
+   */
+  private async getMarketCaps(mints: string[]): Promise<Record<string, number>> {
+    const ids = [...new Set(mints)];
+    const caps: Record<string, number> = {};
+    for (let i = 0; i < ids.length; i += DEXSCREENER_BATCH_SIZE) {
+      const batch = ids.slice(i, i + DEXSCREENER_BATCH_SIZE);
+      try {
+        const { data } = await axios.get(`${DEXSCREENER_TOKENS_URL}/${batch.join(',')}`, { timeout: 15000 });
+        const bestLiquidity: Record<string, number> = {};
+        for (const pair of data?.pairs || []) {
+          const mint = pair?.baseToken?.address;
+          const cap = Number(pair?.fdv);
+          if (!mint || !batch.includes(mint) || !Number.isFinite(cap) || cap <= 0) continue;
+          const liquidity = Number(pair?.liquidity?.usd || 0);
+          if (bestLiquidity[mint] === undefined || liquidity > bestLiquidity[mint]) {
+            bestLiquidity[mint] = liquidity;
+            caps[mint] = cap;
+          }
+        }
+      } catch (e) {
+        // DexScreener may be unavailable; skip these alerts until the next pass
+      }
+    }
+    return caps;
+  }
+
+  /**
+   * Runs a single evaluation pass over all active alerts of users with notifications enabled
+   */
+  async checkAlerts(onTrigger: (trigger: AlertTrigger) => Promise<void>, now: Date = new Date()): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const alerts = await db.all<PriceAlert>(
+        `SELECT a.* FROM price_alerts a
+         LEFT JOIN user_preferences p ON p.user_id = a.user_id
+         WHERE a.status = 'active' AND COALESCE(p.notifications_enabled, true) = true`
+      );
+      if (!alerts.length) return;
+
+      const priceMints = alerts.filter(a => a.metric === 'price').map(a => a.token_mint);
+      const capMints = alerts.filter(a => a.metric === 'mcap').map(a => a.token_mint);
+      const prices = priceMints.length ? await this.portfolioService.getPrices(priceMints, false) : {};
+      const caps = capMints.length ? await this.getMarketCaps(capMints) : {};
+
+      for (const alert of alerts) {
+        const value = alert.metric === 'price' ? prices[alert.token_mint] : caps[alert.token_mint];
+        if (typeof value !== 'number') continue;
+
+        const threshold = Number(alert.threshold);
+        const hit = alert.alert_condition === 'above' ? value >= threshold : value <= threshold;
+        if (!hit) continue;
+
+        if (alert.is_repeating) {
+          const last = alert.last_triggered_at ? new Date(alert.last_triggered_at).getTime() : 0;
+          if (now.getTime() - last < Number(alert.cooldown_seconds) * 1000) continue;
+        }
+
+        await db.run(
+          `UPDATE price_alerts SET status = ?, trigger_count = trigger_count + 1, last_triggered_at = ? WHERE id = ?`,
+          [alert.is_repeating ? 'active' : 'triggered', now.toISOString(), alert.id]
+        );
+
+        try {
+          await onTrigger({ alert, value });
+        } catch (error) {
+          console.error('Error delivering price alert:', error);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { db } from '../database/connection';
+import crypto from 'crypto';
+
+export type AuditEvent = 'wallet_export' | 'action_confirm' | 'auto_approve';
+
+export class AuditService {
+  /**
+   * Records a sensitive action. `details` must never contain secrets.
+   */
+  async record(
+    userId: bigint,
+    event: AuditEvent,
+    success: boolean,
+    options: { walletId?: string; details?: Record<string, any> } = {}
+  ): Promise<void> {
+    await db.run(
+      `INSERT INTO security_audit_log (id, user_id, event, wallet_id, success, details)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        crypto.randomUUID(),
+        userId.toString(),
+        event,
+        options.walletId || null,
+        success,
+        options.details ? JSON.stringify(options.details) : null
+      ]
+    );
+  }
+
+  /**
+   * Counts a user's events of one kind and outcome within the last `windowSeconds`
+   */
+  async countRecent(userId: bigint, event: AuditEvent, success: boolean, windowSeconds: number): Promise<number> {
+    const row = await db.get<{ count: number }>(
+      `SELECT COUNT(*) as count FROM security_audit_log
+       WHERE user_id = ? AND event = ? AND success = ? AND created_at >= datetime('now', ?)`,
+      [userId.toString(), event, success, `-${Math.floor(windowSeconds)} seconds`]
+    );
+    return Number(row?.count || 0);
+  }
+
+  /**
+   * True when the user has ever had a successful event of this kind for `walletId`
+   */
+  async hasSucceededForWallet(userId: bigint, event: AuditEvent, walletId: string): Promise<boolean> {
+    const row = await db.get<{ count: number }>(
+      `SELECT COUNT(*) as count FROM security_audit_log
+       WHERE user_id = ? AND event = ? AND wallet_id = ? AND success = true`,
+      [userId.toString(), event, walletId]
+    );
+    return Number(row?.count || 0) > 0;
+  }
+
+  /**
+   * Sums a numeric `details` field over a user's successful events within the last `windowSeconds`
+   */
+  async sumRecent(userId: bigint, event: AuditEvent, field: string, windowSeconds: number): Promise<number> {
+    const row = await db.get<{ total: number | null }>(
+      `SELECT SUM(CAST(json_extract(details, ?) AS REAL)) as total FROM security_audit_log
+       WHERE user_id = ? AND event = ? AND success = true AND created_at >= datetime('now', ?)`,
+      [`$.${field}`, userId.toString(), event, `-${Math.floor(windowSeconds)} seconds`]
+    );
+    return Number(row?.total || 0);
+  }
+
+  /**
+   * Records a successful event carrying `details[field] = value`, but only while the sum of `field` over the
+   * user's successful events in the window stays within `cap`. Check and insert are a single statement, so
+   * concurrent callers cannot both fit under the cap. Resolves with the new row id, or null when it would not fit.
+   */
+  async recordWithinCap(
+    userId: bigint,
+    event: AuditEvent,
+    field: string,
+    value: number,
+    cap: number,
+    windowSeconds: number,
+    options: { walletId?: string; details?: Record<string, any> } = {}
+  ): Promise<string | null> {
+    const id = crypto.randomUUID();
+    const row = await db.get<{ id: string }>(
+      `INSERT INTO security_audit_log (id, user_id, event, wallet_id, success, details)
+       SELECT ?, ?, ?, ?, true, ?
+       WHERE (
+         SELECT COALESCE(SUM(CAST(json_extract(details, ?) AS REAL)), 0) FROM security_audit_log
+         WHERE user_id = ? AND event = ? AND success = true AND created_at >= datetime('now', ?)
+       ) + ? <= ?
+       RETURNING id`,
+      [
+        id,
+        userId.toString(),
+        event,
+        options.walletId || null,
+        JSON.stringify({ ...options.details, [field]: value }),
+        `$.${field}`,
+        userId.toString(),
+        event,
+        `-${Math.floor(windowSeconds)} seconds`,
+        value,
+        cap,
+      ]
+    );
+    return row ? id : null;
+  }
+
+  /**
+   * Marks a recorded event as failed, e.g. to release a reservation whose action did not go through
+   */
+  async markFailed(id: string, reason: string): Promise<void> {
+    await db.run(
+      `UPDATE security_audit_log SET success = false, details = json_set(COALESCE(details, '{}'), '$.reason', ?) WHERE id = ?`,
+      [reason, id]
+    );
+  }
+}
@@ -0,0 +1,208 @@
+import { PublicKey } from '@solana/web3.js';
+import { Wallet } from '../types';
+import { WalletService, BatchTransfer, BatchSendPreview } from './wallet';
+import { PortfolioService } from './portfolio';
+import { ContactService, looksLikeAddress } from './contacts';
+import { getNameResolver, isSolDomain } from './name-resolver';
+
+export const MAX_BATCH_ROWS = 100;
+
+/**
+ * A row as typed, before its recipient and token are resolved
+ */
+export type BatchRow = {
+  line: number;
+  recipient: string; // address, .sol domain or contact name
+  amount: number;
+  token: string; // symbol or mint
+};
+
+export type BatchRowError = {
+  line: number;
+  text: string;
+  error: string;
+};
+
+/**
+ * A validated row, ready for WalletService.sendBatchFromWallet
+ */
+export type PlannedTransfer = BatchTransfer & {
+  line: number;
+  recipient: string; // as typed, e.g. "alice" or "toly.sol"
+  symbol: string;
+};
+
+export type BatchSendPlan = {
+  transfers: PlannedTransfer[];
+  errors: BatchRowError[]; // rows that cannot be sent; the batch is refused while there are any
+  totals: Array<{ symbol: string; mint?: string; amount: number; balance: number }>;
+  shortfalls: string[]; // e.g. "USDC: sending 1200, you have 1000"
+  preview: BatchSendPreview | null; // null when no row is valid
+  solNeeded: number; // SOL rows plus fees and new token accounts
+  solBalance: number;
+};
+
+/**
+ * Parses "address,amount,token" rows, one per line. Commas, semicolons or tabs separate the fields; blank lines,
+ * "#" comments and a header line naming the columns are skipped.
+ */
+export function parseBatchRows(text: string): { rows: BatchRow[]; errors: BatchRowError[] } {
+  const rows: BatchRow[] = [];
+  const errors: BatchRowError[] = [];
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  lines.forEach((raw, i) => {
+    const line = i + 1;
+    const textLine = raw.trim();
+    if (!textLine || textLine.startsWith('#')) return;
+    const fields = textLine.split(/\s*[,;\t]\s*/).map(f => f.replace(/^"|"$/g, '').trim());
+    if (rows.length === 0 && errors.length === 0 && /address|recipient/i.test(fields[0] || '') && /amount/i.test(fields[1] || '')) return;
+
+    const [recipient, amountStr, token, ...extra] = fields;
+    if (!recipient || !amountStr || !token || extra.some(Boolean)) {
+      errors.push({ line, text: textLine, error: 'expected address,amount,token' });
+      return;
+    }
+    const amount = Number(amountStr);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      errors.push({ line, text: textLine, error: `invalid amount "${amountStr}"` });
+      return;
+    }
+    rows.push({ line, recipient, amount, token });
+  });
+
+  if (rows.length + errors.length > MAX_BATCH_ROWS) {
+    errors.push({ line: 0, text: '', error: `at most ${MAX_BATCH_ROWS} rows per batch` });
+  }
+  return { rows, errors };
+}
+
+export class BatchSendService {
+  private walletService: WalletService;
+  private portfolioService: PortfolioService;
+  private contactService = new ContactService();
+
+  constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com') {
+    this.walletService = new WalletService(rpcUrl);
+    this.portfolioService = new PortfolioService(rpcUrl);
+  }
+
+  /**
+   * Resolves a row's recipient to an address. Throws with a user-facing message when it does not resolve.
+   */
+  private async resolveRecipient(userId: bigint, ref: string, domains: Map<string, string | null>): Promise<string> {
+    if (isSolDomain(ref)) {
+      const domain = ref.toLowerCase();
+      if (!domains.has(domain)) domains.set(domain, await getNameResolver().resolve(domain));
+      const address = domains.get(domain);
+      if (!address) throw new Error(`${domain} is not a registered .sol domain`);
+      return address;
+    }
+    if (looksLikeAddress(ref)) {
+      try {
+        return new PublicKey(ref).toBase58();
+      } catch {
+        throw new Error('invalid Solana address');
+      }
+    }
+    const contact = await this.contactService.getContact(userId, ref);
+    if (!contact) throw new Error(`no contact named "${ref}"`);
+    return contact.address;
+  }
+
+  /**
+   * Validates every row of `text` against the wallet's balances and works out what the batch costs
+   */
+  async prepare(userId: bigint, wallet: Wallet, text: string): Promise<BatchSendPlan> {
+    const parsed = parseBatchRows(text);
+    const errors = [...parsed.errors];
+    const transfers: PlannedTransfer[] = [];
+    const portfolio = await this.portfolioService.getPortfolio(userId, wallet.id);
+    const domains = new Map<string, string | null>();
+
+    for (const row of parsed.rows) {
+      const fail = (error: string) => errors.push({ line: row.line, text: `${row.recipient},${row.amount},${row.token}`, error });
+
+      let toAddress: string;
+      try {
+        toAddress = await this.resolveRecipient(userId, row.recipient, domains);
+      } catch (e: any) {
+        fail(e?.message || String(e));
+        continue;
+      }
+      if (toAddress === wallet.public_key) {
+        fail('recipient is the sending wallet');
+        continue;
+      }
+
+      if (row.token.toLowerCase() === 'sol') {
+        if (Math.abs(row.amount * 1e9 - Math.round(row.amount * 1e9)) > 1e-6) {
+          fail('SOL supports at most 9 decimal places');
+          continue;
+        }
+        transfers.push({ line: row.line, recipient: row.recipient, toAddress, amount: row.amount, symbol: 'SOL' });
+        continue;
+      }
+
+      const matches = portfolio.tokens.filter(t => t.mint === row.token || t.symbol.toLowerCase() === row.token.toLowerCase());
+      if (matches.length === 0) {
+        fail(`you hold no ${row.token.toUpperCase()} in ${wallet.wallet_name}`);
+        continue;
+      }
+      if (matches.length > 1) {
+        fail(`several of your tokens are called ${row.token.toUpperCase()}; use the mint address`);
+        continue;
+      }
+      const held = matches[0];
+      const units = row.amount * 10 ** held.decimals;
+      if (Math.abs(units - Math.round(units)) > 1e-6) {
+        fail(`${held.symbol} supports at most ${held.decimals} decimal places`);
+        continue;
+      }
+      // Token accounts can only be derived for wallet addresses, not program accounts
+      if (!PublicKey.isOnCurve(new PublicKey(toAddress).toBytes())) {
+        fail('recipient is a program account and cannot receive tokens this way');
+        continue;
+      }
+      transfers.push({ line: row.line, recipient: row.recipient, toAddress, amount: row.amount, mint: held.mint, decimals: held.decimals, symbol: held.symbol });
+    }
+
+    // Sum per token and compare against what the wallet holds
+    const byToken = new Map<string, { symbol: string; mint?: string; amount: number; balance: number }>();
+    for (const t of transfers) {
+      const key = t.mint || 'SOL';
+      const balance = t.mint ? portfolio.tokens.find(h => h.mint === t.mint)?.amount || 0 : portfolio.sol;
+      const total = byToken.get(key) || { symbol: t.symbol, mint: t.mint, amount: 0, balance };
+      total.amount += t.amount;
+      byToken.set(key, total);
+    }
+    const totals = [...byToken.values()].map(t => ({ ...t, amount: Number(t.amount.toFixed(9)) }));
+
+    const preview = transfers.length ? await this.walletService.previewBatchSend(wallet.id, transfers) : null;
+
+    // SOL sent to an address with no account must cover its rent-exempt minimum
+    if (preview?.newSolRecipients.length) {
+      const unfunded = new Set(preview.newSolRecipients);
+      for (const t of transfers.filter(t => !t.mint && unfunded.has(t.toAddress) && t.amount < preview.minNewAccountSol)) {
+        errors.push({
+          line: t.line,
+          text: `${t.recipient},${t.amount},SOL`,
+          error: `the recipient has no account yet, so it must receive at least ${preview.minNewAccountSol} SOL`,
+        });
+      }
+      errors.sort((a, b) => a.line - b.line);
+    }
+
+    const solSent = byToken.get('SOL')?.amount || 0;
+    const solNeeded = solSent + (preview ? preview.networkFeeSol + preview.accountRentSol : 0);
+
+    const shortfalls = totals
+      .filter(t => t.mint && t.amount > t.balance)
+      .map(t => `${t.symbol}: sending ${t.amount}, you have ${t.balance}`);
+    if (solNeeded > portfolio.sol) {
+      shortfalls.push(`SOL: need ~${solNeeded.toFixed(6)} including fees${preview?.newTokenAccounts ? ' and new token accounts' : ''}, you have ${portfolio.sol}`);
+    }
+
+    return { transfers, errors, totals, shortfalls, preview, solNeeded, solBalance: portfolio.sol };
+  }
+}
@@ -0,0 +1,164 @@
+import { Connection, TransactionError } from '@solana/web3.js';
+import { db } from '../database/connection';
+import { Transaction } from '../types';
+
+const DEFAULT_POLL_INTERVAL_MS = 15000;
+const STATUS_BATCH_SIZE = 256; // max signatures per getSignatureStatuses call
+// Rows without a recorded lastValidBlockHeight are considered dropped once they are this old and still unknown
+const DEFAULT_UNKNOWN_EXPIRY_MS = 5 * 60 * 1000;
+
+/**
+ * The subset of `Connection` the tracker needs, so tests can pass a local stub
+ */
+export type SignatureStatusSource = Pick<Connection, 'getSignatureStatuses' | 'getBlockHeight'>;
+
+export type TrackedTransaction = Transaction & { wallet_name: string; user_id: bigint };
+
+export type ConfirmationResult = {
+  transaction: TrackedTransaction;
+  status: 'confirmed' | 'failed';
+  reason?: 'error' | 'expired';
+  error?: string;
+};
+
+export class ConfirmationService {
+  private connection: SignatureStatusSource;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(connection: string | SignatureStatusSource = 'https://api.mainnet-beta.solana.com') {
+    this.connection = typeof connection === 'string' ? new Connection(connection, 'confirmed') : connection;
+  }
+
+  /**
+   * Starts the background tracker. `onResult` is called for every transaction that finalizes, fails or expires.
+   */
+  start(
+    onResult: (result: ConfirmationResult) => Promise<void>,
+    intervalMs: number = Number(process.env.TX_TRACKER_POLL_MS || DEFAULT_POLL_INTERVAL_MS)
+  ): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkPending(onResult).catch((error) => {
+        console.error('Error checking pending transactions:', error);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Runs a single pass over pending transactions that have a signature.
+   *
+   * A transaction is confirmed once it reaches `finalized`, failed when the cluster reports an error,
+   * and failed as expired when it is unknown to the cluster after its blockhash stopped being valid.
+   */
+  async checkPending(onResult: (result: ConfirmationResult) => Promise<void>, now: Date = new Date()): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const pending = await db.all<TrackedTransaction>(
+        `SELECT t.*, w.wallet_name, w.user_id FROM transactions t
+         JOIN wallets w ON w.id = t.wallet_id
+         WHERE t.status = 'pending' AND t.signature IS NOT NULL
+         ORDER BY t.created_at ASC`
+      );
+      if (!pending.length) return;
+
+      let blockHeight: number | null = null;
+      for (let i = 0; i < pending.length; i += STATUS_BATCH_SIZE) {
+        const batch = pending.slice(i, i + STATUS_BATCH_SIZE);
+        const { value: statuses } = await this.connection.getSignatureStatuses(
+          batch.map(t => t.signature),
+          { searchTransactionHistory: true }
+        );
+
+        for (let j = 0; j < batch.length; j++) {
+          const tx = batch[j];
+          const status = statuses[j];
+
+          let result: Omit<ConfirmationResult, 'transaction'> | null = null;
+          if (status?.err) {
+            result = { status: 'failed', reason: 'error', error: this.describeError(status.err) };
+          } else if (status?.confirmationStatus === 'finalized') {
+            result = { status: 'confirmed' };
+          } else if (!status) {
+            const lastValid = this.getLastValidBlockHeight(tx);
+            if (lastValid !== null) {
+              if (blockHeight === null) blockHeight = await this.connection.getBlockHeight('finalized');
+              if (blockHeight > lastValid) result = { status: 'failed', reason: 'expired' };
+            } else if (now.getTime() - this.parseTimestamp(tx.created_at) > this.getUnknownExpiryMs()) {
+              result = { status: 'failed', reason: 'expired' };
+            }
+          }
+          if (!result) continue;
+
+          const claimed = await this.markTransaction(tx, result, now);
+          if (!claimed) continue;
+
+          try {
+            await onResult({ transaction: claimed, ...result });
+          } catch (error) {
+            console.error('Error delivering transaction status:', error);
+          }
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async markTransaction(
+    tx: TrackedTransaction,
+    result: Omit<ConfirmationResult, 'transaction'>,
+    now: Date
+  ): Promise<TrackedTransaction | null> {
+    let metadata: Record<string, any> = {};
+    try {
+      metadata = tx.metadata ? JSON.parse(tx.metadata) : {};
+    } catch {}
+    if (result.reason) metadata.failureReason = result.reason;
+    if (result.error) metadata.error = result.error;
+
+    // Only the first writer moves a row out of pending, so a user is never notified twice
+    await db.run(
+      `UPDATE transactions SET status = ?, confirmed_at = ?, metadata = ? WHERE id = ? AND status = 'pending'`,
+      [result.status, now.toISOString(), JSON.stringify(metadata), tx.id]
+    );
+    const updated = await db.get<TrackedTransaction>(
+      `SELECT t.*, w.wallet_name, w.user_id FROM transactions t
+       JOIN wallets w ON w.id = t.wallet_id WHERE t.id = ?`,
+      [tx.id]
+    );
+    if (!updated || updated.status !== result.status || String(updated.confirmed_at) !== now.toISOString()) return null;
+    return updated;
+  }
+
+  private getLastValidBlockHeight(tx: Transaction): number | null {
+    try {
+      const value = Number(JSON.parse(tx.metadata || '{}').lastValidBlockHeight);
+      return Number.isFinite(value) && value > 0 ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getUnknownExpiryMs(): number {
+    return Number(process.env.TX_UNKNOWN_EXPIRY_MS || DEFAULT_UNKNOWN_EXPIRY_MS);
+  }
+
+  // SQLite CURRENT_TIMESTAMP is "YYYY-MM-DD HH:MM:SS" in UTC without a zone marker
+  private parseTimestamp(value: Date | string): number {
+    if (value instanceof Date) return value.getTime();
+    const s = String(value);
+    return new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(s) ? s : `${s.replace(' ', 'T')}Z`).getTime();
+  }
+
+  private describeError(err: TransactionError): string {
+    return typeof err === 'string' ? err : JSON.stringify(err);
+  }
+}
@@ -0,0 +1,140 @@
+import { PublicKey } from '@solana/web3.js';
+import { db } from '../database/connection';
+import { Contact } from '../types';
+import crypto from 'crypto';
+
+const MAX_CONTACTS = 200;
+
+/**
+ * Contact names: a letter, then letters, digits, "_" or "-". No dots, so names never look like a domain.
+ */
+export const CONTACT_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/i;
+
+/**
+ * True for strings shaped like a base58 Solana address
+ */
+export function looksLikeAddress(text: string): boolean {
+  return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(text);
+}
+
+export class ContactService {
+  private normalizeName(name: string): string {
+    const normalized = name.trim().toLowerCase();
+    if (!CONTACT_NAME_PATTERN.test(normalized)) {
+      throw new Error('Contact names must start with a letter and use only letters, digits, "_" or "-" (max 32 characters)');
+    }
+    return normalized;
+  }
+
+  private validateAddress(address: string): string {
+    const trimmed = address.trim();
+    try {
+      if (!looksLikeAddress(trimmed)) throw new Error();
+      new PublicKey(trimmed);
+    } catch {
+      throw new Error('Invalid Solana address');
+    }
+    return trimmed;
+  }
+
+  /**
+   * Saves a new contact. Throws when the name is taken or invalid.
+   */
+  async saveContact(userId: bigint, name: string, address: string): Promise<Contact> {
+    const contactName = this.normalizeName(name);
+    const contactAddress = this.validateAddress(address);
+
+    if (await this.getContact(userId, contactName)) {
+      throw new Error(`You already have a contact named ${contactName}. Use "edit contact ${contactName} <address>" to change it.`);
+    }
+    const count = await db.get<{ count: number }>('SELECT COUNT(*) as count FROM contacts WHERE user_id = ?', [userId.toString()]);
+    if (Number(count?.count || 0) >= MAX_CONTACTS) throw new Error(`You can save at most ${MAX_CONTACTS} contacts`);
+
+    const contactId = crypto.randomUUID();
+    await db.run(
+      'INSERT INTO contacts (id, user_id, name, address) VALUES (?, ?, ?, ?)',
+      [contactId, userId.toString(), contactName, contactAddress]
+    );
+    return (await this.getContact(userId, contactName))!;
+  }
+
+  /**
+   * Points an existing contact at a new address
+   */
+  async updateContact(userId: bigint, name: string, address: string): Promise<Contact> {
+    const contactName = this.normalizeName(name);
+    const contactAddress = this.validateAddress(address);
+    if (!(await this.getContact(userId, contactName))) throw new Error(`No contact named ${contactName}`);
+
+    await db.run(
+      'UPDATE contacts SET address = ? WHERE user_id = ? AND name = ?',
+      [contactAddress, userId.toString(), contactName]
+    );
+    return (await this.getContact(userId, contactName))!;
+  }
+
+  /**
+   * Renames a contact; its address stays the same
+   */
+  async renameContact(userId: bigint, name: string, newName: string): Promise<Contact> {
+    const contactName = this.normalizeName(name);
+    const renamed = this.normalizeName(newName);
+    if (!(await this.getContact(userId, contactName))) throw new Error(`No contact named ${contactName}`);
+    if (renamed !== contactName && await this.getContact(userId, renamed)) throw new Error(`You already have a contact named ${renamed}`);
+
+    await db.run(
+      'UPDATE contacts SET name = ? WHERE user_id = ? AND name = ?',
+      [renamed, userId.toString(), contactName]
+    );
+    return (await this.getContact(userId, renamed))!;
+  }
+
+  /**
+   * Deletes a contact. Resolves false when there was none with that name.
+   */
+  async deleteContact(userId: bigint, name: string): Promise<boolean> {
+    const contact = await this.getContact(userId, name);
+    if (!contact) return false;
+    await db.run('DELETE FROM contacts WHERE id = ?', [contact.id]);
+    return true;
+  }
+
+  async listContacts(userId: bigint): Promise<Contact[]> {
+    return db.all<Contact>(
+      'SELECT * FROM contacts WHERE user_id = ? ORDER BY name ASC',
+      [userId.toString()]
+    );
+  }
+
+  async getContact(userId: bigint, name: string): Promise<Contact | null> {
+    const contact = await db.get<Contact>(
+      'SELECT * FROM contacts WHERE user_id = ? AND name = ?',
+      [userId.toString(), name.trim().toLowerCase()]
+    );
+    return contact || null;
+  }
+
+  /**
+   * The contact saved for `address`, used to label sends to a pasted address
+   */
+  async findByAddress(userId: bigint, address: string): Promise<Contact | null> {
+    const contact = await db.get<Contact>(
+      'SELECT * FROM contacts WHERE user_id = ? AND address = ? ORDER BY name ASC LIMIT 1',
+      [userId.toString(), address]
+    );
+    return contact || null;
+  }
+
+  /**
+   * A contact of whoever owns the wallet `ownerPublicKey`, for callers that know a wallet but not a user
+   */
+  async getContactForWalletOwner(ownerPublicKey: string, name: string): Promise<Contact | null> {
+    const contact = await db.get<Contact>(
+      `SELECT c.* FROM contacts c
+       JOIN wallets w ON w.user_id = c.user_id
+       WHERE w.public_key = ? AND c.name = ?`,
+      [ownerPublicKey, name.trim().toLowerCase()]
+    );
+    return contact || null;
+  }
+}
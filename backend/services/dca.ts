@@ -0,0 +1,239 @@
+import { db } from '../database/connection';
+import { DcaPlan } from '../types';
+import { SwapService } from './swap';
+import { WalletService } from './wallet';
+import crypto from 'crypto';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const DEFAULT_POLL_INTERVAL_MS = 60000;
+// A leg that runs later than this after its slot is treated as missed (e.g., the bot was down)
+const MISSED_RUN_GRACE_MS = 15 * 60 * 1000;
+
+const HOUR_SECONDS = 60 * 60;
+const DAY_SECONDS = 24 * HOUR_SECONDS;
+
+export type DcaCatchUpPolicy = 'once' | 'skip';
+
+export type DcaRunResult = {
+  plan: DcaPlan;
+  signature?: string;
+  error?: string;
+  skippedRuns: number;
+  completed: boolean;
+  nextRunAt?: string;
+};
+
+/**
+ * Parses a cadence such as "hourly", "daily", "weekly", "monthly" or "every 3 days"
+ */
+export function parseCadence(text: string): { label: string; seconds: number } | null {
+  const t = text.trim().toLowerCase();
+  if (t === 'hourly') return { label: 'hourly', seconds: HOUR_SECONDS };
+  if (t === 'daily') return { label: 'daily', seconds: DAY_SECONDS };
+  if (t === 'weekly') return { label: 'weekly', seconds: 7 * DAY_SECONDS };
+  if (t === 'biweekly') return { label: 'biweekly', seconds: 14 * DAY_SECONDS };
+  // Months vary in length; a fixed 30 days keeps the schedule predictable
+  if (t === 'monthly') return { label: 'monthly', seconds: 30 * DAY_SECONDS };
+
+  const m = t.match(/^every\s+(\d+)\s*(h|hours?|d|days?|w|weeks?)$/);
+  if (!m) return null;
+  const n = Number(m[1]);
+  if (!n || n <= 0) return null;
+  const unit = m[2];
+  if (unit.startsWith('h')) return { label: `every ${n} hour${n > 1 ? 's' : ''}`, seconds: n * HOUR_SECONDS };
+  if (unit.startsWith('d')) return { label: `every ${n} day${n > 1 ? 's' : ''}`, seconds: n * DAY_SECONDS };
+  return { label: `every ${n} week${n > 1 ? 's' : ''}`, seconds: n * 7 * DAY_SECONDS };
+}
+
+export class DcaService {
+  private swapService: SwapService;
+  private walletService: WalletService;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com') {
+    this.swapService = new SwapService(rpcUrl);
+    this.walletService = new WalletService(rpcUrl);
+  }
+
+  private getCatchUpPolicy(): DcaCatchUpPolicy {
+    return process.env.DCA_CATCH_UP_POLICY === 'skip' ? 'skip' : 'once';
+  }
+
+  /**
+   * Creates an active DCA plan. The first leg runs on the next scheduler tick.
+   */
+  async createPlan(params: {
+    userId: bigint;
+    chatId: number;
+    inputToken: string;
+    outputToken: string;
+    amount: number;
+    cadence: string;
+    endAt?: Date;
+  }): Promise<DcaPlan> {
+    const { userId, chatId, amount, endAt } = params;
+    if (!amount || amount <= 0) throw new Error('Amount must be > 0');
+
+    const cadence = parseCadence(params.cadence);
+    if (!cadence) throw new Error('Unsupported cadence. Use hourly, daily, weekly, monthly or "every N days"');
+    if (endAt && endAt.getTime() <= Date.now()) throw new Error('End date must be in the future');
+
+    const primary = await this.walletService.getPrimaryWallet(userId);
+    if (!primary) throw new Error('No primary wallet found');
+
+    const input = await this.swapService.resolveTokenInfo(params.inputToken);
+    const output = await this.swapService.resolveTokenInfo(params.outputToken);
+    if (input.address === output.address) throw new Error('Cannot DCA between the same token');
+
+    const planId = crypto.randomUUID();
+    await db.run(
+      `INSERT INTO dca_plans (id, user_id, chat_id, input_mint, input_symbol, output_mint, output_symbol,
+         amount, cadence, interval_seconds, next_run_at, end_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        planId,
+        userId.toString(),
+        chatId,
+        input.address,
+        input.symbol,
+        output.address,
+        output.symbol,
+        amount,
+        cadence.label,
+        cadence.seconds,
+        new Date().toISOString(),
+        endAt ? endAt.toISOString() : null
+      ]
+    );
+
+    const plan = await db.get<DcaPlan>('SELECT * FROM dca_plans WHERE id = ?', [planId]);
+    if (!plan) throw new Error('Failed to retrieve created plan');
+    return plan;
+  }
+
+  /**
+   * Gets a user's active plans, oldest first
+   */
+  async getActivePlans(userId: bigint): Promise<DcaPlan[]> {
+    return db.all<DcaPlan>(
+      `SELECT * FROM dca_plans WHERE user_id = ? AND status = 'active' ORDER BY created_at ASC`,
+      [userId.toString()]
+    );
+  }
+
+  /**
+   * Cancels an active plan
+   */
+  async cancelPlan(userId: bigint, planId: string): Promise<boolean> {
+    const cancelled = await db.get<{ id: string }>(
+      `UPDATE dca_plans SET status = 'cancelled' WHERE id = ? AND user_id = ? AND status = 'active' RETURNING id`,
+      [planId, userId.toString()]
+    );
+    return !!cancelled;
+  }
+
+  /**
+   * Starts the background scheduler. `onResult` is called after every leg that ran, failed or was skipped.
+   */
+  start(
+    onResult: (result: DcaRunResult) => Promise<void>,
+    intervalMs: number = Number(process.env.DCA_POLL_MS || DEFAULT_POLL_INTERVAL_MS)
+  ): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runDuePlans(onResult).catch((error) => {
+        console.error('Error running DCA plans:', error);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Runs every plan whose next leg is due.
+   *
+   * Catch-up policy for legs missed during downtime (`DCA_CATCH_UP_POLICY`):
+   * - `once` (default): run a single leg now and drop the rest of the missed legs
+   * - `skip`: run nothing now and wait for the next regular slot
+   * Either way the schedule resumes on its original cadence and missed legs are reported to the user.
+   */
+  async runDuePlans(onResult: (result: DcaRunResult) => Promise<void>, now: Date = new Date()): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const plans = await db.all<DcaPlan>(`SELECT * FROM dca_plans WHERE status = 'active'`);
+      for (const plan of plans) {
+        const dueAt = new Date(plan.next_run_at).getTime();
+        if (Number.isNaN(dueAt) || dueAt > now.getTime()) continue;
+
+        const result = await this.runPlan(plan, dueAt, now.getTime());
+        if (result) await onResult(result);
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async runPlan(plan: DcaPlan, dueAt: number, now: number): Promise<DcaRunResult | null> {
+    const intervalMs = Number(plan.interval_seconds) * 1000;
+    const endAt = plan.end_at ? new Date(plan.end_at).getTime() : null;
+
+    // Plan ran past its end date while the bot was down
+    if (endAt !== null && dueAt > endAt) {
+      const ended = await db.get<DcaPlan>(
+        `UPDATE dca_plans SET status = 'completed' WHERE id = ? AND status = 'active' RETURNING *`,
+        [plan.id]
+      );
+      return ended ? { plan: ended, skippedRuns: 0, completed: true } : null;
+    }
+
+    const lateness = now - dueAt;
+    const slotsPassed = Math.floor(lateness / intervalMs);
+    const nextRunAt = new Date(dueAt + (slotsPassed + 1) * intervalMs);
+    const completed = endAt !== null && nextRunAt.getTime() > endAt;
+    const missed = lateness > MISSED_RUN_GRACE_MS;
+    const runNow = !missed || this.getCatchUpPolicy() === 'once';
+    const skippedRuns = runNow ? slotsPassed : slotsPassed + 1;
+
+    // Advance the schedule before swapping so a crash mid-swap never repeats the leg. Only the caller that
+    // moved it gets the row back, so a concurrent cancel or a second scheduler cannot run the leg too.
+    const claimed = await db.get<DcaPlan>(
+      `UPDATE dca_plans SET next_run_at = ?, status = ? WHERE id = ? AND next_run_at = ? AND status = 'active' RETURNING *`,
+      [nextRunAt.toISOString(), completed ? 'completed' : 'active', plan.id, plan.next_run_at]
+    );
+    if (!claimed) return null;
+
+    const base = { plan: claimed, skippedRuns, completed, nextRunAt: completed ? undefined : nextRunAt.toISOString() };
+    if (!runNow) return base;
+
+    const userId = BigInt(plan.user_id);
+    const amount = Number(plan.amount);
+
+    try {
+      const source = { source: 'dca', planId: plan.id, outputSymbol: plan.output_symbol };
+      const { signature } = plan.input_mint === SOL_MINT
+        ? await this.swapService.swapSolToToken(userId, amount, plan.output_mint, undefined, source)
+        : await this.swapService.swapTokenToToken(userId, amount, plan.input_mint, plan.output_mint, undefined, source);
+
+      await db.run(
+        `UPDATE dca_plans SET runs_completed = runs_completed + 1, last_run_at = CURRENT_TIMESTAMP,
+           last_signature = ?, last_error = NULL WHERE id = ?`,
+        [signature, plan.id]
+      );
+      return { ...base, signature };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error while running DCA leg';
+      console.error('Error running DCA leg:', error);
+      await db.run(
+        `UPDATE dca_plans SET runs_failed = runs_failed + 1, last_run_at = CURRENT_TIMESTAMP, last_error = ? WHERE id = ?`,
+        [message, plan.id]
+      );
+      return { ...base, error: message };
+    }
+  }
+}
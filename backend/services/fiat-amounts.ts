@@ -0,0 +1,114 @@
+import { PortfolioService } from './portfolio';
+import { SwapService } from './swap';
+import { OfframpService } from './offramp';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const DEFAULT_TOLERANCE_PCT = 2;
+
+export type FiatCurrency = 'USD' | 'NGN';
+
+/**
+ * A token amount derived from a fiat value at the prices of `convertedAt`
+ */
+export type FiatConversion = {
+  currency: FiatCurrency;
+  value: number; // in `currency`
+  usd: number;
+  ngnPerUsd?: number;
+  token: string; // symbol as typed by the user
+  mint: string;
+  priceUsd: number;
+  tokenAmount: number;
+  convertedAt: string;
+};
+
+export type FiatRecheck = {
+  ok: boolean; // the fresh token amount is within the tolerance of the confirmed one
+  fresh: FiatConversion;
+  driftPct: number;
+  tolerancePct: number;
+};
+
+/**
+ * Parses "$20", "20 usd", "20 dollars", "₦5000", "5,000 ngn" or "5000 naira"
+ */
+export function parseFiatAmount(text: string): { currency: FiatCurrency; value: number } | null {
+  const m = text.trim().match(/^(\$|₦)?\s*(\d[\d,]*(?:\.\d+)?)\s*(usd|dollars?|ngn|naira)?$/i);
+  if (!m) return null;
+  const [, symbol, digits, word] = m;
+  if (!symbol === !word) return null; // exactly one currency marker
+  const value = Number(digits.replace(/,/g, ''));
+  if (!Number.isFinite(value) || value <= 0) return null;
+  const currency: FiatCurrency = symbol === '₦' || /^(ngn|naira)$/i.test(word || '') ? 'NGN' : 'USD';
+  return { currency, value };
+}
+
+/**
+ * Formats a fiat value for confirmations, e.g. "$20.00" or "₦30,000 (~$19.80)"
+ */
+export function formatFiat(conversion: Pick<FiatConversion, 'currency' | 'value' | 'usd'>): string {
+  if (conversion.currency === 'NGN') {
+    return `₦${conversion.value.toLocaleString(undefined, { maximumFractionDigits: 2 })} (~$${conversion.usd.toFixed(2)})`;
+  }
+  return `$${conversion.value.toFixed(2)}`;
+}
+
+export class FiatAmountService {
+  private portfolioService: PortfolioService;
+  private swapService: SwapService;
+  private offrampService = new OfframpService();
+
+  constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com') {
+    this.portfolioService = new PortfolioService(rpcUrl);
+    this.swapService = new SwapService(rpcUrl);
+  }
+
+  getTolerancePct(): number {
+    return Number(process.env.FIAT_AMOUNT_TOLERANCE_PCT || DEFAULT_TOLERANCE_PCT);
+  }
+
+  /**
+   * NGN per USD from the offramp rate. Only an approximation for buying, since it is the sell-side rate.
+   */
+  private async getNgnPerUsd(): Promise<number> {
+    const calc = await this.offrampService.calculateExpectedFiat(1);
+    if (!calc.rate || calc.currency !== 'NGN') throw new Error('NGN rate is unavailable right now');
+    return calc.rate;
+  }
+
+  /**
+   * Converts a fiat value into units of `token` at current prices
+   */
+  async convert(fiat: { currency: FiatCurrency; value: number }, token: string): Promise<FiatConversion> {
+    const ngnPerUsd = fiat.currency === 'NGN' ? await this.getNgnPerUsd() : undefined;
+    const usd = ngnPerUsd ? fiat.value / ngnPerUsd : fiat.value;
+
+    const { address: mint } = await this.swapService.resolveTokenInfo(token);
+    const prices = await this.portfolioService.getPrices([mint], mint === SOL_MINT);
+    const priceUsd = prices[mint];
+    if (!priceUsd) throw new Error(`No USD price available for ${token.toUpperCase()}`);
+
+    return {
+      currency: fiat.currency,
+      value: fiat.value,
+      usd,
+      ngnPerUsd,
+      token,
+      mint,
+      priceUsd,
+      tokenAmount: Math.floor((usd / priceUsd) * 1e9) / 1e9,
+      convertedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Converts again at current prices and compares against a confirmed conversion
+   */
+  async recheck(confirmed: FiatConversion, tolerancePct: number = this.getTolerancePct()): Promise<FiatRecheck> {
+    const fresh = await this.convert({ currency: confirmed.currency, value: confirmed.value }, confirmed.token);
+    const driftPct = confirmed.tokenAmount > 0
+      ? (Math.abs(fresh.tokenAmount - confirmed.tokenAmount) / confirmed.tokenAmount) * 100
+      : 0;
+    return { ok: driftPct <= tolerancePct, fresh, driftPct, tolerancePct };
+  }
+}
@@ -0,0 +1,323 @@
+import { ConfirmedSignatureInfo, Connection, LAMPORTS_PER_SOL, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { db } from '../database/connection';
+import { Wallet } from '../types';
+import { PortfolioService } from './portfolio';
+import { WalletService } from './wallet';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+const SIGNATURE_PAGE_SIZE = 50;
+
+/**
+ * The subset of `Connection` the watcher needs, so tests can pass a local stub
+ */
+export type SignatureHistorySource = Pick<Connection, 'getSignaturesForAddress' | 'getParsedTransaction' | 'getTokenAccountsByOwner'>;
+
+export type IncomingTransfer = {
+  mint: string; // SOL_MINT for native SOL
+  symbol: string;
+  amount: number;
+  from: string;
+  usd?: number;
+};
+
+export type IncomingTransferResult = {
+  wallet: Wallet;
+  chatId: number;
+  signature: string;
+  transfers: IncomingTransfer[];
+};
+
+export class IncomingTransferService {
+  private connection: SignatureHistorySource;
+  private portfolioService: PortfolioService;
+  private walletService: WalletService;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com', connection?: SignatureHistorySource) {
+    this.connection = connection || new Connection(rpcUrl, 'confirmed');
+    this.portfolioService = new PortfolioService(rpcUrl);
+    this.walletService = new WalletService(rpcUrl);
+  }
+
+  /**
+   * Starts the background watcher. `onResult` is called for every incoming transfer that is not muted as dust.
+   */
+  start(
+    onResult: (result: IncomingTransferResult) => Promise<void>,
+    intervalMs: number = Number(process.env.RECEIVE_POLL_MS || DEFAULT_POLL_INTERVAL_MS)
+  ): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.scanWallets(onResult).catch((error) => {
+        console.error('Error scanning for incoming transfers:', error);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Runs a single pass over every wallet, processing signatures newer than the wallet's cursor.
+   * A wallet seen for the first time only gets a cursor, so existing history is never announced.
+   */
+  async scanWallets(onResult: (result: IncomingTransferResult) => Promise<void>): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const wallets = await db.all<Wallet & { last_signature: string | null; has_state: number | null; scanned_at: string | null }>(
+        `SELECT w.*, s.last_signature, s.wallet_id IS NOT NULL as has_state, s.scanned_at FROM wallets w
+         LEFT JOIN wallet_scan_state s ON s.wallet_id = w.id`
+      );
+
+      for (const wallet of wallets) {
+        try {
+          await this.scanWallet(wallet, wallet.has_state ? wallet.last_signature : undefined, wallet.scanned_at, onResult);
+        } catch (error) {
+          console.error(`Error scanning wallet ${wallet.public_key}:`, error);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Scans the wallet address and each of its token accounts. A token transfer into an account that already
+   * exists does not mention the owner's address, so it only shows up in the token account's history.
+   */
+  private async scanWallet(
+    wallet: Wallet,
+    cursor: string | null | undefined,
+    scannedAt: string | null,
+    onResult: (result: IncomingTransferResult) => Promise<void>
+  ): Promise<void> {
+    const address = new PublicKey(wallet.public_key);
+    const { value: tokenAccounts } = await this.connection.getTokenAccountsByOwner(address, { programId: TOKEN_PROGRAM_ID });
+
+    if (cursor === undefined) {
+      const [latest] = await this.connection.getSignaturesForAddress(address, { limit: 1 });
+      for (const account of tokenAccounts) {
+        const [latestForAccount] = await this.connection.getSignaturesForAddress(account.pubkey, { limit: 1 });
+        await this.saveTokenAccountCursor(wallet.id, account.pubkey.toBase58(), latestForAccount?.signature || null);
+      }
+      await this.saveCursor(wallet.id, latest?.signature || null);
+      await this.markScanned(wallet.id);
+      return;
+    }
+
+    const tokenCursors = new Map(
+      (await db.all<{ account: string; last_signature: string | null }>(
+        'SELECT account, last_signature FROM token_account_scan_state WHERE wallet_id = ?',
+        [wallet.id]
+      )).map(row => [row.account, row.last_signature])
+    );
+    // Token accounts opened since the last pass are read back to that pass. Without one, e.g. right after an
+    // upgrade, they only get a cursor.
+    const since = scannedAt ? Math.floor(this.parseTimestamp(scannedAt) / 1000) : undefined;
+
+    // Signature -> the addresses whose history lists it; one transaction can touch several of them
+    const pending = new Map<string, { info: ConfirmedSignatureInfo; addresses: string[] }>();
+    const collect = (owner: string, signatures: ConfirmedSignatureInfo[]) => {
+      for (const info of signatures) {
+        const entry = pending.get(info.signature) || { info, addresses: [] };
+        entry.addresses.push(owner);
+        pending.set(info.signature, entry);
+      }
+    };
+
+    collect(wallet.public_key, await this.getSignaturesSince(address, cursor));
+    for (const account of tokenAccounts) {
+      const key = account.pubkey.toBase58();
+      if (tokenCursors.has(key)) {
+        collect(key, await this.getSignaturesSince(account.pubkey, tokenCursors.get(key) || null));
+        continue;
+      }
+      const history = since !== undefined ? await this.getSignaturesSince(account.pubkey, null, since) : [];
+      const fresh = history.filter(info => info.blockTime == null || info.blockTime >= since!);
+      collect(key, fresh);
+      if (!fresh.length) {
+        const [latest] = history.length ? history : await this.connection.getSignaturesForAddress(account.pubkey, { limit: 1 });
+        await this.saveTokenAccountCursor(wallet.id, key, latest?.signature || null);
+      }
+    }
+
+    // Oldest first, advancing the cursors as we go so a crash never re-announces a transfer
+    const ordered = [...pending.values()].sort((a, b) => a.info.slot - b.info.slot);
+    for (const { info, addresses } of ordered) {
+      if (!info.err) {
+        const tx = await this.connection.getParsedTransaction(info.signature, { maxSupportedTransactionVersion: 0 });
+        const transfers = tx ? await this.extractIncoming(tx, wallet.public_key) : [];
+        if (transfers.length) await this.handleTransfers(wallet, info.signature, transfers, onResult);
+      }
+      for (const owner of addresses) {
+        if (owner === wallet.public_key) await this.saveCursor(wallet.id, info.signature);
+        else await this.saveTokenAccountCursor(wallet.id, owner, info.signature);
+      }
+    }
+
+    await this.markScanned(wallet.id);
+  }
+
+  /**
+   * Every signature newer than `until`, newest first. Pages back with `before` so a busy address cannot push
+   * older unseen signatures out of a single page. With `since`, stops after the page that reaches that block time.
+   */
+  private async getSignaturesSince(address: PublicKey, until: string | null, since?: number): Promise<ConfirmedSignatureInfo[]> {
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+
+    for (;;) {
+      const page = await this.connection.getSignaturesForAddress(address, {
+        limit: SIGNATURE_PAGE_SIZE,
+        ...(until ? { until } : {}),
+        ...(before ? { before } : {}),
+      });
+      signatures.push(...page);
+      if (page.length < SIGNATURE_PAGE_SIZE) break;
+      const oldest = page[page.length - 1];
+      if (since !== undefined && oldest.blockTime != null && oldest.blockTime < since) break;
+      before = oldest.signature;
+    }
+
+    return signatures;
+  }
+
+  private async saveCursor(walletId: string, signature: string | null): Promise<void> {
+    await db.run(
+      `INSERT INTO wallet_scan_state (wallet_id, last_signature) VALUES (?, ?)
+       ON CONFLICT(wallet_id) DO UPDATE SET last_signature = excluded.last_signature, updated_at = CURRENT_TIMESTAMP`,
+      [walletId, signature]
+    );
+  }
+
+  private async markScanned(walletId: string): Promise<void> {
+    await db.run('UPDATE wallet_scan_state SET scanned_at = CURRENT_TIMESTAMP WHERE wallet_id = ?', [walletId]);
+  }
+
+  private async saveTokenAccountCursor(walletId: string, account: string, signature: string | null): Promise<void> {
+    await db.run(
+      `INSERT INTO token_account_scan_state (account, wallet_id, last_signature) VALUES (?, ?, ?)
+       ON CONFLICT(account) DO UPDATE SET wallet_id = excluded.wallet_id, last_signature = excluded.last_signature, updated_at = CURRENT_TIMESTAMP`,
+      [account, walletId, signature]
+    );
+  }
+
+  // SQLite CURRENT_TIMESTAMP is "YYYY-MM-DD HH:MM:SS" in UTC without a zone marker
+  private parseTimestamp(value: Date | string): number {
+    if (value instanceof Date) return value.getTime();
+    const s = String(value);
+    return new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(s) ? s : `${s.replace(' ', 'T')}Z`).getTime();
+  }
+
+  /**
+   * Finds SOL and SPL balances that grew for `owner` in a transaction it did not sign
+   */
+  private async extractIncoming(tx: ParsedTransactionWithMeta, owner: string): Promise<IncomingTransfer[]> {
+    const meta = tx.meta;
+    if (!meta) return [];
+    const keys = tx.transaction.message.accountKeys;
+    const index = keys.findIndex(k => k.pubkey.toBase58() === owner);
+
+    // Anything the wallet signed (sends, swaps) is already tracked as its own transaction
+    if (index >= 0 && keys[index].signer) return [];
+
+    const feePayer = keys[0]?.pubkey.toBase58() || 'unknown';
+    const transfers: IncomingTransfer[] = [];
+
+    if (index >= 0) {
+      const delta = meta.postBalances[index] - meta.preBalances[index];
+      if (delta > 0) {
+        // The sender is the account that lost the most lamports
+        let from = feePayer;
+        let lowest = 0;
+        meta.preBalances.forEach((pre, i) => {
+          const change = meta.postBalances[i] - pre;
+          if (change < lowest) {
+            lowest = change;
+            from = keys[i].pubkey.toBase58();
+          }
+        });
+        transfers.push({ mint: SOL_MINT, symbol: 'SOL', amount: delta / LAMPORTS_PER_SOL, from });
+      }
+    }
+
+    const pre = meta.preTokenBalances || [];
+    const post = meta.postTokenBalances || [];
+    const uiAmount = (b?: { uiTokenAmount: { uiAmount: number | null; amount: string; decimals: number } }) =>
+      b ? (b.uiTokenAmount.uiAmount ?? Number(b.uiTokenAmount.amount) / 10 ** b.uiTokenAmount.decimals) : 0;
+
+    for (const balance of post) {
+      if (balance.owner !== owner) continue;
+      const before = pre.find(p => p.accountIndex === balance.accountIndex);
+      const delta = uiAmount(balance) - uiAmount(before);
+      if (delta <= 0) continue;
+
+      const senderBalance = pre.find(p => {
+        if (p.mint !== balance.mint || p.owner === owner) return false;
+        const after = post.find(q => q.accountIndex === p.accountIndex);
+        return uiAmount(after) < uiAmount(p);
+      });
+      const metaInfo = await this.portfolioService.resolveMintMeta(balance.mint);
+      transfers.push({
+        mint: balance.mint,
+        symbol: metaInfo?.symbol || `${balance.mint.slice(0, 4)}...${balance.mint.slice(-4)}`,
+        amount: delta,
+        from: senderBalance?.owner || feePayer,
+      });
+    }
+
+    return transfers;
+  }
+
+  private async handleTransfers(
+    wallet: Wallet,
+    signature: string,
+    transfers: IncomingTransfer[],
+    onResult: (result: IncomingTransferResult) => Promise<void>
+  ): Promise<void> {
+    // Transfers between the user's own wallets are already recorded as a send under the same signature
+    const existing = await db.get('SELECT id FROM transactions WHERE signature = ?', [signature]);
+    if (!existing) {
+      const [main] = transfers;
+      await this.walletService.recordTransaction(
+        wallet.id,
+        signature,
+        'receive',
+        main.amount,
+        main.mint === SOL_MINT ? undefined : main.mint,
+        {
+          from: main.from,
+          symbol: main.symbol,
+          ...(transfers.length > 1 ? { transfers } : {}),
+        }
+      );
+    }
+
+    const prefs = await db.get<{ notifications_enabled: boolean; dust_threshold_usd: number }>(
+      'SELECT notifications_enabled, dust_threshold_usd FROM user_preferences WHERE user_id = ?',
+      [String(wallet.user_id)]
+    );
+    if (prefs && !prefs.notifications_enabled) return;
+
+    const threshold = Number(prefs?.dust_threshold_usd || 0);
+    let visible = transfers;
+    if (threshold > 0) {
+      const prices = await this.portfolioService.getPrices(transfers.map(t => t.mint), false);
+      // Unpriced tokens are muted too; they are almost always spam airdrops
+      visible = transfers
+        .map(t => ({ ...t, usd: prices[t.mint] !== undefined ? t.amount * prices[t.mint] : undefined }))
+        .filter(t => t.usd !== undefined && t.usd >= threshold);
+    }
+    if (!visible.length) return;
+
+    // Telegram private chat ids equal the user id
+    await onResult({ wallet, chatId: Number(wallet.user_id), signature, transfers: visible });
+  }
+}
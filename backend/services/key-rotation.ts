@@ -0,0 +1,135 @@
+import { Keypair } from '@solana/web3.js';
+import { db } from '../database/connection';
+import { Wallet } from '../types';
+import { WalletEncryption, EncryptedWallet, MasterKeyMaterial } from '../utils/wallet-encryptor';
+
+type WalletRow = Wallet & { iv: string; salt: string; tag: string };
+
+export type KeyVerificationReport = {
+  total: number;
+  byVersion: Record<number, number>;
+  failures: Array<{ walletId: string; publicKey: string; keyVersion: number; error: string }>;
+};
+
+export type KeyRotationReport = {
+  newVersion: number;
+  rotated: number;
+  fromVersions: Record<number, number>;
+};
+
+export class KeyRotationService {
+  private toEncrypted(row: WalletRow): EncryptedWallet {
+    return {
+      encryptedPrivateKey: row.encrypted_private_key,
+      iv: row.iv,
+      salt: row.salt,
+      tag: row.tag,
+      keyVersion: Number(row.key_version || 1),
+      derivation: row.key_derivation || 'global',
+    };
+  }
+
+  /**
+   * Decrypts a row and checks that the secret key still matches the stored public key
+   */
+  private decryptAndCheck(row: WalletRow, material: MasterKeyMaterial): string {
+    const owner = { userId: String(row.user_id), publicKey: row.public_key };
+    const hex = WalletEncryption.decryptWithKey(this.toEncrypted(row), material, owner);
+    const keypair = Keypair.fromSecretKey(new Uint8Array(Buffer.from(hex, 'hex')));
+    if (keypair.publicKey.toBase58() !== row.public_key) {
+      throw new Error('Decrypted key does not match the wallet public key');
+    }
+    return hex;
+  }
+
+  /**
+   * Checks that every wallet decrypts with the key configured for its version
+   */
+  async verifyAll(): Promise<KeyVerificationReport> {
+    const rows = await db.all<WalletRow>('SELECT * FROM wallets');
+    const report: KeyVerificationReport = { total: rows.length, byVersion: {}, failures: [] };
+
+    for (const row of rows) {
+      const version = Number(row.key_version || 1);
+      report.byVersion[version] = (report.byVersion[version] || 0) + 1;
+      try {
+        this.decryptAndCheck(row, WalletEncryption.getKeyMaterial(version));
+      } catch (error) {
+        report.failures.push({
+          walletId: row.id,
+          publicKey: row.public_key,
+          keyVersion: version,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Re-encrypts every wallet under a new master key in one transaction.
+   * Nothing is written unless every wallet decrypts with its current key and with the new key afterwards.
+   */
+  async rotate(newKey: { masterKey: string }): Promise<KeyRotationReport> {
+    if (newKey.masterKey.length < 32) throw new Error('New master key must be at least 32 characters');
+
+    return db.transaction(async () => {
+      const rows = await db.all<WalletRow>('SELECT * FROM wallets');
+      const maxVersion = rows.reduce((max, r) => Math.max(max, Number(r.key_version || 1)), WalletEncryption.getCurrentKeyVersion());
+      return this.reencrypt(rows, { version: maxVersion + 1, masterKey: newKey.masterKey });
+    });
+  }
+
+  /**
+   * Moves wallets still using the shared global key to per-user keys under the current master key.
+   * Runs at startup; it is a no-op once every row has been migrated.
+   */
+  async migrateLegacyWallets(): Promise<KeyRotationReport> {
+    const material = WalletEncryption.getKeyMaterial();
+    return db.transaction(async () => {
+      const rows = await db.all<WalletRow>(`SELECT * FROM wallets WHERE key_derivation = 'global'`);
+      return this.reencrypt(rows, material);
+    });
+  }
+
+  /**
+   * Re-encrypts `rows` with per-user keys under `material`, then re-reads and verifies them.
+   * Must run inside a transaction; any failure throws so the caller rolls everything back.
+   */
+  private async reencrypt(rows: WalletRow[], material: MasterKeyMaterial): Promise<KeyRotationReport> {
+    const report: KeyRotationReport = { newVersion: material.version, rotated: 0, fromVersions: {} };
+
+    for (const row of rows) {
+      const version = Number(row.key_version || 1);
+      let hex: string;
+      try {
+        hex = this.decryptAndCheck(row, WalletEncryption.getKeyMaterial(version));
+      } catch (error) {
+        throw new Error(`Wallet ${row.id} (${row.public_key}) does not decrypt with key version ${version}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      const encrypted = WalletEncryption.encryptWithKey(hex, material, { userId: String(row.user_id), publicKey: row.public_key });
+      await db.run(
+        `UPDATE wallets SET encrypted_private_key = ?, iv = ?, salt = ?, tag = ?, key_version = ?, key_derivation = ? WHERE id = ?`,
+        [encrypted.encryptedPrivateKey, encrypted.iv, encrypted.salt, encrypted.tag, material.version, encrypted.derivation || 'user', row.id]
+      );
+      report.rotated++;
+      report.fromVersions[version] = (report.fromVersions[version] || 0) + 1;
+    }
+
+    // Verify before commit; any failure rolls the whole batch back
+    for (const { id } of rows) {
+      const row = await db.get<WalletRow>('SELECT * FROM wallets WHERE id = ?', [id]);
+      if (!row || Number(row.key_version) !== material.version || row.key_derivation !== 'user') {
+        throw new Error(`Wallet ${id} was not re-encrypted`);
+      }
+      try {
+        this.decryptAndCheck(row, material);
+      } catch (error) {
+        throw new Error(`Wallet ${id} failed verification under the new key: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return report;
+  }
+}
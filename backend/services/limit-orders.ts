@@ -0,0 +1,187 @@
+import { db } from '../database/connection';
+import { LimitOrder } from '../types';
+import { SwapService } from './swap';
+import { PortfolioService } from './portfolio';
+import crypto from 'crypto';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+
+export type LimitOrderResult = {
+  order: LimitOrder;
+  signature?: string;
+  error?: string;
+  price: number;
+};
+
+export class LimitOrderService {
+  private swapService: SwapService;
+  private portfolioService: PortfolioService;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com') {
+    this.swapService = new SwapService(rpcUrl);
+    this.portfolioService = new PortfolioService(rpcUrl);
+  }
+
+  /**
+   * Creates an open limit order.
+   * Buy orders spend `amount` of `quoteToken` on `token`; sell orders swap `amount` of `token` into `quoteToken`.
+   * In both cases the trigger watches the USD price of `token`.
+   */
+  async createOrder(params: {
+    userId: bigint;
+    chatId: number;
+    side: LimitOrder['side'];
+    token: string;
+    quoteToken: string;
+    amount: number;
+    condition: LimitOrder['trigger_condition'];
+    triggerPrice: number;
+  }): Promise<LimitOrder> {
+    const { userId, chatId, side, amount, condition, triggerPrice } = params;
+    if (!amount || amount <= 0) throw new Error('Amount must be > 0');
+    if (!triggerPrice || triggerPrice <= 0) throw new Error('Trigger price must be > 0');
+
+    const token = await this.swapService.resolveTokenInfo(params.token);
+    const quote = await this.swapService.resolveTokenInfo(params.quoteToken);
+    if (token.address === quote.address) throw new Error('Cannot place an order between the same token');
+
+    const input = side === 'buy' ? quote : token;
+    const output = side === 'buy' ? token : quote;
+
+    const orderId = crypto.randomUUID();
+    await db.run(
+      `INSERT INTO limit_orders (id, user_id, chat_id, side, input_mint, input_symbol, output_mint, output_symbol,
+         amount, watch_mint, watch_symbol, trigger_condition, trigger_price)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        orderId,
+        userId.toString(),
+        chatId,
+        side,
+        input.address,
+        input.symbol,
+        output.address,
+        output.symbol,
+        amount,
+        token.address,
+        token.symbol,
+        condition,
+        triggerPrice
+      ]
+    );
+
+    const order = await db.get<LimitOrder>('SELECT * FROM limit_orders WHERE id = ?', [orderId]);
+    if (!order) throw new Error('Failed to retrieve created order');
+    return order;
+  }
+
+  /**
+   * Gets a user's open orders, oldest first
+   */
+  async getOpenOrders(userId: bigint): Promise<LimitOrder[]> {
+    return db.all<LimitOrder>(
+      `SELECT * FROM limit_orders WHERE user_id = ? AND status = 'open' ORDER BY created_at ASC`,
+      [userId.toString()]
+    );
+  }
+
+  /**
+   * Cancels an open order. Orders that already triggered cannot be cancelled.
+   */
+  async cancelOrder(userId: bigint, orderId: string): Promise<boolean> {
+    // One statement, so an order the watcher claims in the meantime is never reported as cancelled
+    const cancelled = await db.get<{ id: string }>(
+      `UPDATE limit_orders SET status = 'cancelled' WHERE id = ? AND user_id = ? AND status = 'open' RETURNING id`,
+      [orderId, userId.toString()]
+    );
+    return !!cancelled;
+  }
+
+  /**
+   * Starts the background price watcher. `onResult` is called for every order that fills or fails.
+   */
+  start(
+    onResult: (result: LimitOrderResult) => Promise<void>,
+    intervalMs: number = Number(process.env.LIMIT_ORDER_POLL_MS || DEFAULT_POLL_INTERVAL_MS)
+  ): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkOrders(onResult).catch((error) => {
+        console.error('Error checking limit orders:', error);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Runs a single pass over all open orders, executing the ones whose trigger fired
+   */
+  async checkOrders(onResult: (result: LimitOrderResult) => Promise<void>): Promise<void> {
+    // Skip the tick if the previous pass is still executing swaps
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const orders = await db.all<LimitOrder>(
+        `SELECT * FROM limit_orders WHERE status = 'open' ORDER BY created_at ASC`
+      );
+      if (!orders.length) return;
+
+      const prices = await this.portfolioService.getPrices(orders.map(o => o.watch_mint), false);
+
+      for (const order of orders) {
+        const price = prices[order.watch_mint];
+        if (typeof price !== 'number') continue;
+
+        const trigger = Number(order.trigger_price);
+        const fired = order.trigger_condition === 'below' ? price <= trigger : price >= trigger;
+        if (!fired) continue;
+
+        const result = await this.executeOrder(order, price);
+        if (result) await onResult(result);
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async executeOrder(order: LimitOrder, price: number): Promise<LimitOrderResult | null> {
+    // Claim the order so a concurrent cancel or a second watcher cannot run it twice; only one caller gets the row back
+    const claimed = await db.get<LimitOrder>(
+      `UPDATE limit_orders SET status = 'triggered' WHERE id = ? AND status = 'open' RETURNING *`,
+      [order.id]
+    );
+    if (!claimed) return null;
+
+    const userId = BigInt(order.user_id);
+    const amount = Number(order.amount);
+
+    try {
+      const source = { source: 'limit_order', orderId: order.id, outputSymbol: order.output_symbol };
+      const { signature } = order.input_mint === SOL_MINT
+        ? await this.swapService.swapSolToToken(userId, amount, order.output_mint, undefined, source)
+        : await this.swapService.swapTokenToToken(userId, amount, order.input_mint, order.output_mint, undefined, source);
+
+      await db.run(
+        `UPDATE limit_orders SET status = 'filled', signature = ?, filled_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [signature, order.id]
+      );
+      return { order: claimed, signature, price };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error while executing order';
+      console.error('Error executing limit order:', error);
+      await db.run(
+        `UPDATE limit_orders SET status = 'failed', error = ? WHERE id = ?`,
+        [message, order.id]
+      );
+      return { order: claimed, error: message, price };
+    }
+  }
+}
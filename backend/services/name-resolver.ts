@@ -0,0 +1,92 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import crypto from 'crypto';
+
+const NAME_PROGRAM_ID = new PublicKey('namesLPneVptA9Z5rqUDD9tMTWEJwofgaYwp8cawRkX');
+const SOL_TLD_AUTHORITY = new PublicKey('58PwtjSDuFHuUkYjH9BYnnQKHfwo9reZhC2zMJv9JPkx');
+const HASH_PREFIX = 'SPL Name Service';
+const OWNER_OFFSET = 32; // name registry header: parent (32), owner (32), class (32)
+
+/**
+ * Turns a human-readable name into the address that owns it
+ */
+export interface NameResolver {
+  /**
+   * Owner address of `name`, or null when the name is not registered
+   */
+  resolve(name: string): Promise<string | null>;
+}
+
+/**
+ * True for "toly.sol" or "pay.toly.sol"
+ */
+export function isSolDomain(text: string): boolean {
+  return /^(?:[a-z0-9_-]+\.)?[a-z0-9_-]+\.sol$/i.test(text.trim());
+}
+
+/**
+ * Resolves SNS `.sol` domains (and one level of subdomain) to their on-chain owner
+ */
+export class SnsNameResolver implements NameResolver {
+  private connection: Connection;
+
+  constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com') {
+    this.connection = new Connection(rpcUrl, 'confirmed');
+  }
+
+  private getNameKey(name: string, parent: PublicKey): PublicKey {
+    const hashed = crypto.createHash('sha256').update(HASH_PREFIX + name, 'utf8').digest();
+    const [key] = PublicKey.findProgramAddressSync([hashed, Buffer.alloc(32), parent.toBuffer()], NAME_PROGRAM_ID);
+    return key;
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    const domain = name.trim().toLowerCase();
+    if (!isSolDomain(domain)) return null;
+
+    const labels = domain.slice(0, -'.sol'.length).split('.');
+    let key = this.getNameKey(labels[labels.length - 1], SOL_TLD_AUTHORITY);
+    if (labels.length === 2) key = this.getNameKey(`\0${labels[0]}`, key);
+
+    const account = await this.connection.getAccountInfo(key);
+    if (!account || !account.owner.equals(NAME_PROGRAM_ID) || account.data.length < OWNER_OFFSET + 32) return null;
+
+    const owner = new PublicKey(account.data.subarray(OWNER_OFFSET, OWNER_OFFSET + 32));
+    // Tokenized or otherwise program-held names are owned by an account without a private key
+    if (!PublicKey.isOnCurve(owner.toBytes())) {
+      throw new Error(`${domain} is held by a program account, not a wallet`);
+    }
+    return owner.toBase58();
+  }
+}
+
+/**
+ * Resolves from a fixed map, for tests and local development
+ */
+export class StaticNameResolver implements NameResolver {
+  private records: Map<string, string>;
+
+  constructor(records: Record<string, string> = {}) {
+    this.records = new Map(Object.entries(records).map(([name, address]) => [name.toLowerCase(), address]));
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    return this.records.get(name.trim().toLowerCase()) || null;
+  }
+}
+
+let sharedResolver: NameResolver | null = null;
+
+/**
+ * The resolver used by the bot and the agent tools. Created on first use so the RPC URL comes from the loaded env.
+ */
+export function getNameResolver(): NameResolver {
+  if (!sharedResolver) sharedResolver = new SnsNameResolver(process.env.SOLANA_RPC_URL || process.env.HELIUS_RPC);
+  return sharedResolver;
+}
+
+/**
+ * Replaces the shared resolver, e.g. with a StaticNameResolver in tests
+ */
+export function setNameResolver(resolver: NameResolver): void {
+  sharedResolver = resolver;
+}
@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import { db } from '../database/connection';
+import { UserSession } from '../types';
+import { UserService } from './user';
+import { SwapQuote } from './swap';
+
+const DEFAULT_TTL_SECONDS = 120;
+const DEFAULT_SWEEP_INTERVAL_MS = 15000;
+
+export type PendingActionType = 'send' | 'swap' | 'offramp' | 'limit_order' | 'dca' | 'sweep' | 'batch_send';
+
+/**
+ * An action waiting in the session for its Confirm button. `id` is bound into the button's callback data.
+ */
+export type PendingAction = {
+  id: string;
+  type: PendingActionType;
+  payload: any;
+  chatId: number;
+  messageId?: number;
+  createdAt: string;
+  expiresAt: string;
+  quote?: SwapQuote; // snapshot shown to the user when the action was prepared
+};
+
+export type PendingTake =
+  | { status: 'ok'; action: PendingAction }
+  | { status: 'expired'; action: PendingAction }
+  | { status: 'missing' };
+
+export class PendingActionService {
+  private userService = new UserService();
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  getTtlSeconds(): number {
+    return Number(process.env.PENDING_ACTION_TTL_SECONDS || DEFAULT_TTL_SECONDS);
+  }
+
+  private async getSessionData(userId: bigint): Promise<Record<string, any>> {
+    const session = await this.userService.getSession(userId) as unknown as (UserSession & { session_data?: any }) | null;
+    return session?.session_data || {};
+  }
+
+  /**
+   * Stores `action` as the user's pending action under a fresh ID, replacing any previous one
+   */
+  async create(
+    userId: bigint,
+    chatId: number,
+    action: { type: PendingActionType; payload: any; quote?: SwapQuote }
+  ): Promise<PendingAction> {
+    const now = Date.now();
+    const pending: PendingAction = {
+      ...action,
+      id: crypto.randomBytes(8).toString('hex'),
+      chatId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.getTtlSeconds() * 1000).toISOString(),
+    };
+    await this.userService.upsertSession(userId, { ...(await this.getSessionData(userId)), pending });
+    return pending;
+  }
+
+  /**
+   * Remembers the confirmation message so the sweeper can remove its buttons on expiry
+   */
+  async attachMessage(userId: bigint, actionId: string, messageId: number): Promise<void> {
+    const sessionData = await this.getSessionData(userId);
+    if (sessionData.pending?.id !== actionId) return;
+    await this.userService.upsertSession(userId, { ...sessionData, pending: { ...sessionData.pending, messageId } });
+  }
+
+  /**
+   * Removes the pending action with `actionId` from the session and returns it. Each action can be taken once;
+   * an expired one is removed but reported as expired so it is never executed.
+   */
+  async take(userId: bigint, actionId: string, now: Date = new Date()): Promise<PendingTake> {
+    const sessionData = await this.getSessionData(userId);
+    const pending = sessionData.pending as PendingAction | null | undefined;
+    if (!pending || !pending.id || pending.id !== actionId) return { status: 'missing' };
+
+    await this.userService.upsertSession(userId, { ...sessionData, pending: null });
+    if (new Date(pending.expiresAt).getTime() <= now.getTime()) return { status: 'expired', action: pending };
+    return { status: 'ok', action: pending };
+  }
+
+  /**
+   * Drops the user's pending action, if any. Resolves with what was dropped.
+   */
+  async clear(userId: bigint): Promise<PendingAction | null> {
+    const sessionData = await this.getSessionData(userId);
+    if (!sessionData.pending) return null;
+    await this.userService.upsertSession(userId, { ...sessionData, pending: null });
+    return sessionData.pending;
+  }
+
+  /**
+   * Starts the background sweeper. `onExpired` is called for every pending action that timed out.
+   */
+  start(
+    onExpired: (userId: bigint, action: PendingAction) => Promise<void>,
+    intervalMs: number = Number(process.env.PENDING_ACTION_SWEEP_MS || DEFAULT_SWEEP_INTERVAL_MS)
+  ): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sweepExpired(onExpired).catch((error) => {
+        console.error('Error sweeping pending actions:', error);
+      });
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Runs a single pass that removes expired pending actions from every session
+   */
+  async sweepExpired(
+    onExpired: (userId: bigint, action: PendingAction) => Promise<void>,
+    now: Date = new Date()
+  ): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const rows = await db.all<{ id: string; user_id: string; session_data: string }>(
+        `SELECT id, user_id, session_data FROM user_sessions
+         WHERE json_extract(session_data, '$.pending.expiresAt') <= ?`,
+        [now.toISOString()]
+      );
+
+      for (const row of rows) {
+        let sessionData: Record<string, any>;
+        try {
+          sessionData = JSON.parse(row.session_data);
+        } catch {
+          continue;
+        }
+        const pending = sessionData.pending as PendingAction;
+        // Clears only this action, in one statement, so a confirm tap or a new action saved since the
+        // select is never overwritten
+        const cleared = await db.get(
+          `UPDATE user_sessions SET session_data = json_set(session_data, '$.pending', NULL)
+           WHERE id = ? AND json_extract(session_data, '$.pending.id') = ?
+           RETURNING id`,
+          [row.id, pending.id]
+        );
+        if (!cleared) continue;
+
+        try {
+          await onExpired(BigInt(row.user_id), pending);
+        } catch (error) {
+          console.error('Error delivering pending action expiry:', error);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+}
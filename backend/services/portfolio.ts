@@ -24,6 +24,18 @@ export class PortfolioService {
     return (w as Wallet) || null;
   }
 
+  /**
+   * The wallet a portfolio is read from: `walletId` when given (it must belong to the user), else the primary
+   */
+  private async getSourceWallet(userId: bigint, walletId?: string): Promise<Wallet | null> {
+    if (!walletId) return this.getPrimaryWallet(userId);
+    const w = await db.get<Wallet>(
+      'SELECT * FROM wallets WHERE id = ? AND user_id = ?',
+      [walletId, userId.toString()]
+    );
+    return (w as Wallet) || null;
+  }
+
   private async fetchTokenList(): Promise<TokenInfo[]> {
     const now = Date.now();
     if (this.tokenListCache && now - this.tokenListCache.at < 5 * 60 * 1000) {
@@ -40,21 +52,21 @@ export class PortfolioService {
     }
   }
 
-  private async resolveMintMeta(mint: string): Promise<TokenInfo | null> {
+  async resolveMintMeta(mint: string): Promise<TokenInfo | null> {
     const list = await this.fetchTokenList();
     const found = list.find(t => t.address === mint);
     return found || null;
   }
 
-  async getPortfolio(userId: bigint): Promise<{
+  async getPortfolio(userId: bigint, walletId?: string): Promise<{
     address: string;
     sol: number;
     tokens: Array<{ mint: string; amount: number; symbol: string; decimals: number }>;
   }> {
-    const primary = await this.getPrimaryWallet(userId);
-    if (!primary) throw new Error('No primary wallet found');
+    const wallet = await this.getSourceWallet(userId, walletId);
+    if (!wallet) throw new Error(walletId ? 'Wallet not found' : 'No primary wallet found');
 
-    const owner = new PublicKey(primary.public_key);
+    const owner = new PublicKey(wallet.public_key);
 
     // SOL balance
     const lamports = await this.connection.getBalance(owner, 'confirmed');
@@ -86,10 +98,10 @@ export class PortfolioService {
     // sort by amount desc (rough)
     tokens.sort((a, b) => b.amount - a.amount);
 
-    return { address: primary.public_key, sol, tokens };
+    return { address: wallet.public_key, sol, tokens };
   }
 
-  private async getPrices(mints: string[], includeSOL = true): Promise<Record<string, number>> {
+  async getPrices(mints: string[], includeSOL = true): Promise<Record<string, number>> {
     const ids = [...new Set(mints)];
     const params: any = {};
     if (ids.length) params.ids = ids.join(',');
@@ -119,14 +131,14 @@ export class PortfolioService {
     return priceMap;
   }
 
-  async getPortfolioUSD(userId: bigint): Promise<{
+  async getPortfolioUSD(userId: bigint, walletId?: string): Promise<{
     address: string;
     sol: number;
     solUSD: number;
     tokens: Array<{ mint: string; amount: number; symbol: string; decimals: number; usd?: number; price?: number }>;
     totalUSD: number;
   }> {
-    const base = await this.getPortfolio(userId);
+    const base = await this.getPortfolio(userId, walletId);
     const list = await this.fetchTokenList();
     const solMint = list.find(t => t.symbol?.toUpperCase() === 'SOL')?.address;
     const mints = [...new Set([...(base.tokens.map(t => t.mint)), solMint].filter(Boolean) as string[])];
@@ -146,8 +158,8 @@ export class PortfolioService {
     return { address: base.address, sol: base.sol, solUSD, tokens: tokensWithUSD, totalUSD };
   }
 
-  async filterTokenBalance(userId: bigint, symbolOrMint: string): Promise<{ symbol: string; mint: string; amount: number; usd?: number; price?: number } | null> {
-    const pf = await this.getPortfolioUSD(userId);
+  async filterTokenBalance(userId: bigint, symbolOrMint: string, walletId?: string): Promise<{ symbol: string; mint: string; amount: number; usd?: number; price?: number } | null> {
+    const pf = await this.getPortfolioUSD(userId, walletId);
     // Match symbol first
     const foundBySymbol = pf.tokens.find(t => t.symbol?.toLowerCase() === symbolOrMint.toLowerCase());
     if (foundBySymbol) return { symbol: foundBySymbol.symbol, mint: foundBySymbol.mint, amount: foundBySymbol.amount, usd: foundBySymbol.usd, price: foundBySymbol.price };
@@ -0,0 +1,89 @@
+import { db } from '../database/connection';
+import { UserPreferences } from '../types';
+import { SwapService } from './swap';
+import { singleTokenValidator } from '../../src/mastra/agents/solana-agent/tools/tokenValidator';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export type RiskGuardrails = {
+  minLiquidityUSD: number; // tokens bought must have at least this much Jupiter liquidity (0 = no check)
+  maxSlippageBps: number;
+  refuseUnverified: boolean; // refuse when liquidity cannot be checked
+};
+
+export const RISK_GUARDRAILS: Record<UserPreferences['risk_tolerance'], RiskGuardrails> = {
+  low: { minLiquidityUSD: 50000, maxSlippageBps: 200, refuseUnverified: true },
+  medium: { minLiquidityUSD: 5000, maxSlippageBps: 1000, refuseUnverified: false },
+  high: { minLiquidityUSD: 0, maxSlippageBps: 5000, refuseUnverified: false },
+};
+
+export type RiskCheck = {
+  allowed: boolean;
+  riskTolerance: UserPreferences['risk_tolerance'];
+  reason?: string;
+  warning?: string;
+  liquidityUSD?: number;
+};
+
+export class RiskService {
+  private swapService: SwapService;
+
+  constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com') {
+    this.swapService = new SwapService(rpcUrl);
+  }
+
+  async getRiskTolerance(userId: bigint): Promise<UserPreferences['risk_tolerance']> {
+    const prefs = await db.get<{ risk_tolerance: string }>(
+      'SELECT risk_tolerance FROM user_preferences WHERE user_id = ?',
+      [userId.toString()]
+    );
+    const value = prefs?.risk_tolerance;
+    return value === 'low' || value === 'high' ? value : 'medium';
+  }
+
+  /**
+   * Checks a swap that buys `outputToken` against the guardrails for the user's risk tolerance.
+   * Only the token being bought is checked, so users can always sell out of an illiquid position.
+   */
+  async checkSwap(userId: bigint, outputToken: string, slippageBps: number): Promise<RiskCheck> {
+    const riskTolerance = await this.getRiskTolerance(userId);
+    const rails = RISK_GUARDRAILS[riskTolerance];
+
+    if (slippageBps > rails.maxSlippageBps) {
+      return {
+        allowed: false,
+        riskTolerance,
+        reason: `Slippage ${slippageBps / 100}% is above the ${rails.maxSlippageBps / 100}% allowed for ${riskTolerance} risk tolerance.`,
+      };
+    }
+    if (!rails.minLiquidityUSD) return { allowed: true, riskTolerance };
+
+    let mint: string;
+    try {
+      mint = (await this.swapService.resolveTokenInfo(outputToken)).address;
+    } catch (error) {
+      return { allowed: false, riskTolerance, reason: error instanceof Error ? error.message : `Unknown token: ${outputToken}` };
+    }
+    if (mint === SOL_MINT) return { allowed: true, riskTolerance };
+
+    const result = await (singleTokenValidator as any).execute({
+      input: { tokenAddress: mint, minLiquidityUSD: rails.minLiquidityUSD },
+    }) as { isValid: boolean; liquidityUSD: number; error?: string; recommendation: string };
+
+    if (result.isValid) return { allowed: true, riskTolerance, liquidityUSD: result.liquidityUSD };
+
+    // Network failures are "unverified"; a token Jupiter has no price for counts as illiquid
+    const unverified = !result.liquidityUSD && !!result.error && !/no price data/i.test(result.error);
+    if (unverified && !rails.refuseUnverified) {
+      return { allowed: true, riskTolerance, warning: `Could not verify liquidity for ${outputToken.toUpperCase()}.` };
+    }
+    return {
+      allowed: false,
+      riskTolerance,
+      liquidityUSD: result.liquidityUSD,
+      reason: unverified
+        ? `Could not verify liquidity for ${outputToken.toUpperCase()}, which ${riskTolerance} risk tolerance requires.`
+        : `${outputToken.toUpperCase()} has $${Number(result.liquidityUSD || 0).toFixed(0)} liquidity; ${riskTolerance} risk tolerance requires at least $${rails.minLiquidityUSD}.`,
+    };
+  }
+}
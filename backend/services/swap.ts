@@ -3,7 +3,7 @@ import axios from 'axios';
 import bs58 from 'bs58';
 import { db } from '../database/connection';
 import { Wallet } from '../types';
-import { WalletEncryption, EncryptedWallet } from '../utils/wallet-encryptor';
+import { WalletService } from './wallet';
 
 const JUP_TOKENS_URL = 'https://token.jup.ag/all';
 const JUP_QUOTE_URL = 'https://quote-api.jup.ag/v6/quote';
@@ -11,12 +11,68 @@ const JUP_SWAP_URL = 'https://quote-api.jup.ag/v6/swap';
 
 const SOL_MINT = 'So11111111111111111111111111111111111111112';
 const MIN_FEE_SOL = 0.0005; // conservative minimum to cover fees
+const DEFAULT_SLIPPAGE_BPS = 100;
+const DEFAULT_REQUOTE_TOLERANCE_PCT = 1;
+const BASE_TX_FEE_SOL = 0.000005; // one signature; priority fees come on top
+const TOKEN_LIST_TTL_MS = 5 * 60 * 1000;
+
+type TokenListEntry = { address: string; symbol: string; decimals: number };
+
+/**
+ * A Jupiter quote in UI units. `minOutAmount` is what the swap guarantees after slippage.
+ */
+export type SwapQuote = {
+  inputMint: string;
+  inputSymbol: string;
+  outputMint: string;
+  outputSymbol: string;
+  inAmount: number;
+  outAmount: number;
+  minOutAmount: number;
+  slippageBps: number;
+  priceImpactPct: number;
+  routeLabels: string[];
+  fees: Array<{ label: string; amount: number; symbol: string }>; // liquidity fees charged by each hop
+  networkFeeSol: number;
+  quotedAt: string;
+  response: any; // raw Jupiter quote, needed to build the transaction
+};
+
+export type RequoteCheck = {
+  ok: boolean; // the fresh output is within the tolerance of the preview
+  quote: SwapQuote;
+  dropPct: number;
+  tolerancePct: number;
+};
+
+function formatAmount(value: number): string {
+  return value.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+}
+
+/**
+ * Preview lines for a quote: expected and minimum output, price impact, route and fees
+ */
+export function formatQuotePreview(quote: SwapQuote): string[] {
+  const fees = quote.fees.map(f => `${formatAmount(f.amount)} ${f.symbol} (${f.label})`);
+  fees.push(`~${quote.networkFeeSol} SOL network + priority fee`);
+  return [
+    `Expected: ~${formatAmount(quote.outAmount)} ${quote.outputSymbol}`,
+    `Minimum received: ${formatAmount(quote.minOutAmount)} ${quote.outputSymbol} (slippage ${quote.slippageBps / 100}%)`,
+    `Price impact: ${quote.priceImpactPct < 0.01 ? '<0.01' : quote.priceImpactPct.toFixed(2)}%`,
+    `Route: ${quote.routeLabels.length ? quote.routeLabels.join(' → ') : 'direct'}`,
+    `Fees: ${fees.join(', ')}`,
+  ];
+}
 
 export class SwapService {
   private connection: Connection;
+  private walletService: WalletService;
+  private tokenListCache: { at: number; data: TokenListEntry[] } | null = null;
+  private mintInfoCache = new Map<string, TokenListEntry>(); // on-chain lookups; decimals never change
 
   constructor(rpcUrl: string = 'https://api.mainnet-beta.solana.com') {
     this.connection = new Connection(rpcUrl, 'confirmed');
+    this.walletService = new WalletService(rpcUrl);
   }
 
   private async getPrimaryWallet(userId: bigint): Promise<Wallet | null> {
@@ -27,57 +83,247 @@ export class SwapService {
     return (w as Wallet) || null;
   }
 
+  /**
+   * The user's preferred slippage in basis points (user_preferences.preferred_slippage is a percentage)
+   */
+  async getPreferredSlippageBps(userId: bigint): Promise<number> {
+    const prefs = await db.get<{ preferred_slippage: number }>(
+      'SELECT preferred_slippage FROM user_preferences WHERE user_id = ?',
+      [userId.toString()]
+    );
+    const pct = Number(prefs?.preferred_slippage);
+    return Number.isFinite(pct) && pct > 0 ? Math.round(pct * 100) : DEFAULT_SLIPPAGE_BPS;
+  }
+
   private async getPrivateKey(walletId: string, userId: bigint): Promise<Uint8Array | null> {
-    const wallet = await db.get<Wallet>('SELECT * FROM wallets WHERE id = ? AND user_id = ?', [walletId, userId.toString()]);
-    if (!wallet) return null;
-    const enc: EncryptedWallet = {
-      encryptedPrivateKey: (wallet as any).encrypted_private_key,
-      iv: (wallet as any).iv,
-      salt: (wallet as any).salt,
-      tag: (wallet as any).tag,
-    };
-    const hex = WalletEncryption.decryptPrivateKey(enc);
-    return new Uint8Array(Buffer.from(hex, 'hex'));
+    return this.walletService.getPrivateKey(walletId, userId);
   }
 
-  private async resolveOutputMint(symbolOrMint: string): Promise<string> {
-    // If it looks like a mint, return as-is
-    if (/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(symbolOrMint)) return symbolOrMint;
-    // Else fetch list and match by symbol
-    const { data } = await axios.get(JUP_TOKENS_URL, { timeout: 15000 });
-    const list: Array<{ address: string; symbol: string }> = data;
-    const found = list.find(t => t.symbol?.toLowerCase() === symbolOrMint.toLowerCase());
-    if (!found) throw new Error(`Token not found for symbol: ${symbolOrMint}`);
-    return found.address;
+  /**
+   * The Jupiter token list, cached for a few minutes. A failed refresh falls back to the stale copy.
+   */
+  private async fetchTokenList(): Promise<TokenListEntry[]> {
+    const now = Date.now();
+    if (this.tokenListCache && now - this.tokenListCache.at < TOKEN_LIST_TTL_MS) {
+      return this.tokenListCache.data;
+    }
+    try {
+      const { data } = await axios.get(JUP_TOKENS_URL, { timeout: 15000 });
+      const list: TokenListEntry[] = data;
+      this.tokenListCache = { at: now, data: list };
+      return list;
+    } catch (e) {
+      if (this.tokenListCache) return this.tokenListCache.data;
+      throw e;
+    }
+  }
+
+  /**
+   * Reads decimals from the mint account, for mints missing from the token list (new or unverified tokens)
+   */
+  private async fetchMintInfo(mint: string): Promise<TokenListEntry> {
+    const cached = this.mintInfoCache.get(mint);
+    if (cached) return cached;
+
+    let key: PublicKey;
+    try {
+      key = new PublicKey(mint);
+    } catch {
+      throw new Error(`Token not found for mint: ${mint}`);
+    }
+    const { value } = await this.connection.getParsedAccountInfo(key);
+    const parsed = (value?.data as any)?.parsed;
+    if (!value || parsed?.type !== 'mint' || typeof parsed.info?.decimals !== 'number') {
+      throw new Error(`Token not found for mint: ${mint}`);
+    }
+    const info = { address: mint, decimals: parsed.info.decimals, symbol: `${mint.slice(0, 4)}...${mint.slice(-4)}` };
+    this.mintInfoCache.set(mint, info);
+    return info;
   }
 
-  private async resolveTokenInfo(symbolOrMint: string): Promise<{ address: string; decimals: number; symbol: string }>{
-    // If it's a mint, try to find it directly; otherwise match by symbol
-    const { data } = await axios.get(JUP_TOKENS_URL, { timeout: 15000 });
-    const list: Array<{ address: string; symbol: string; decimals: number }> = data;
+  async resolveTokenInfo(symbolOrMint: string): Promise<{ address: string; decimals: number; symbol: string }>{
+    // Native SOL is matched by its wrapped mint
+    if (symbolOrMint.toLowerCase() === 'sol' || symbolOrMint === SOL_MINT) {
+      return { address: SOL_MINT, decimals: 9, symbol: 'SOL' };
+    }
+    // If it's a mint, try the list and then the chain; otherwise match by symbol
     if (/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(symbolOrMint)) {
+      const list = await this.fetchTokenList().catch(() => [] as TokenListEntry[]);
       const foundByMint = list.find(t => t.address === symbolOrMint);
-      if (!foundByMint) throw new Error(`Token not found for mint: ${symbolOrMint}`);
+      if (!foundByMint) return this.fetchMintInfo(symbolOrMint);
       return { address: foundByMint.address, decimals: foundByMint.decimals, symbol: foundByMint.symbol };
     }
+    const list = await this.fetchTokenList();
     const foundBySymbol = list.find(t => t.symbol?.toLowerCase() === symbolOrMint.toLowerCase());
     if (!foundBySymbol) throw new Error(`Token not found for symbol: ${symbolOrMint}`);
     return { address: foundBySymbol.address, decimals: foundBySymbol.decimals, symbol: foundBySymbol.symbol };
   }
 
-  async swapSolToToken(userId: bigint, amountSOL: number, outputToken: string, slippageBps = 100): Promise<{ signature: string }>{
-    if (!amountSOL || amountSOL <= 0) throw new Error('Amount must be > 0');
+  /**
+   * Fetches a Jupiter quote for swapping `amount` of `inputToken` without building a transaction
+   */
+  async getQuote(inputToken: string, outputToken: string, amount: number, slippageBps: number): Promise<SwapQuote> {
+    if (!amount || amount <= 0) throw new Error('Amount must be > 0');
+    const inInfo = await this.resolveTokenInfo(inputToken);
+    const outInfo = await this.resolveTokenInfo(outputToken);
+
+    const { data: quote } = await axios.get(JUP_QUOTE_URL, {
+      params: {
+        inputMint: inInfo.address,
+        outputMint: outInfo.address,
+        amount: BigInt(Math.floor(amount * 10 ** inInfo.decimals)).toString(),
+        slippageBps,
+        onlyDirectRoutes: false,
+        asLegacyTransaction: false,
+      },
+      timeout: 20000,
+    });
+    if (!quote || !quote.routePlan) throw new Error('No route found for the swap');
+
+    // Fees are reported per hop in the hop's fee mint; only the input and output mints have known decimals here
+    const known: Record<string, { decimals: number; symbol: string }> = {
+      [inInfo.address]: inInfo,
+      [outInfo.address]: outInfo,
+    };
+    const fees = quote.routePlan
+      .map((r: any) => r?.swapInfo)
+      .filter((hop: any) => hop && known[hop.feeMint] && Number(hop.feeAmount) > 0)
+      .map((hop: any) => ({
+        label: hop.label || 'AMM',
+        amount: Number(hop.feeAmount) / 10 ** known[hop.feeMint].decimals,
+        symbol: known[hop.feeMint].symbol,
+      }));
+
+    return {
+      inputMint: inInfo.address,
+      inputSymbol: inInfo.symbol,
+      outputMint: outInfo.address,
+      outputSymbol: outInfo.symbol,
+      inAmount: amount,
+      outAmount: Number(quote.outAmount) / 10 ** outInfo.decimals,
+      minOutAmount: Number(quote.otherAmountThreshold ?? quote.outAmount) / 10 ** outInfo.decimals,
+      slippageBps,
+      priceImpactPct: Number(quote.priceImpactPct || 0) * 100,
+      routeLabels: quote.routePlan.map((r: any) => r?.swapInfo?.label).filter(Boolean),
+      fees,
+      networkFeeSol: BASE_TX_FEE_SOL,
+      quotedAt: new Date().toISOString(),
+      response: quote,
+    };
+  }
+
+  /**
+   * How far (percent) a re-quote may fall below the preview before a confirmed swap is aborted
+   */
+  getRequoteTolerancePct(): number {
+    return Number(process.env.SWAP_REQUOTE_TOLERANCE_PCT || DEFAULT_REQUOTE_TOLERANCE_PCT);
+  }
+
+  /**
+   * Re-quotes a previewed swap and compares the expected output against the preview
+   */
+  async requote(preview: SwapQuote, tolerancePct: number = this.getRequoteTolerancePct()): Promise<RequoteCheck> {
+    const quote = await this.getQuote(preview.inputMint, preview.outputMint, preview.inAmount, preview.slippageBps);
+    const dropPct = preview.outAmount > 0
+      ? Math.max(0, ((preview.outAmount - quote.outAmount) / preview.outAmount) * 100)
+      : 0;
+    return { ok: dropPct <= tolerancePct, quote, dropPct, tolerancePct };
+  }
+
+  /**
+   * Guards against executing a quote for a different pair or amount than the swap being sent
+   */
+  private assertQuoteMatches(quote: any, inputMint: string, outputMint: string, amountRaw: string): void {
+    if (quote.inputMint !== inputMint || quote.outputMint !== outputMint || String(quote.inAmount) !== amountRaw) {
+      throw new Error('The quote does not match this swap. Nothing was executed; please request a new quote.');
+    }
+  }
 
+  /**
+   * Records a confirmed swap in the transactions table. `extra` carries caller context (e.g. DCA plan id).
+   * A failure here is logged rather than thrown because the swap itself already landed.
+   */
+  private async recordSwap(
+    walletId: string,
+    signature: string,
+    amount: number,
+    quote: any,
+    details: {
+      inputMint: string;
+      inputSymbol?: string;
+      outputMint: string;
+      outputSymbol?: string;
+      outputDecimals?: number;
+      slippageBps: number;
+      lastValidBlockHeight?: number;
+    },
+    extra?: Record<string, any>
+  ): Promise<void> {
+    try {
+      const outRaw = quote?.outAmount ? Number(quote.outAmount) : undefined;
+      const route = Array.isArray(quote?.routePlan)
+        ? quote.routePlan.map((r: any) => r?.swapInfo?.label).filter(Boolean)
+        : [];
+      await this.walletService.recordTransaction(
+        walletId,
+        signature,
+        'swap',
+        amount,
+        details.inputMint === SOL_MINT ? undefined : details.inputMint,
+        {
+          ...details,
+          outAmountRaw: quote?.outAmount,
+          outAmount: outRaw !== undefined && details.outputDecimals !== undefined
+            ? outRaw / 10 ** details.outputDecimals
+            : undefined,
+          priceImpactPct: quote?.priceImpactPct !== undefined ? Number(quote.priceImpactPct) : undefined,
+          route,
+          ...extra,
+        }
+      );
+    } catch (error) {
+      console.error('Error recording swap transaction:', error);
+    }
+  }
+
+  async swapSolToToken(
+    userId: bigint,
+    amountSOL: number,
+    outputToken: string,
+    slippageBps?: number,
+    metadata?: Record<string, any>,
+    quoteResponse?: any
+  ): Promise<{ signature: string }>{
     const primary = await this.getPrimaryWallet(userId);
     if (!primary) throw new Error('No primary wallet found');
 
-    const secret = await this.getPrivateKey(primary.id, userId);
+    return this.swapSolToTokenFromWallet(primary.id, userId, amountSOL, outputToken, slippageBps, metadata, quoteResponse);
+  }
+
+  /**
+   * Swaps SOL from a specific wallet id. `quoteResponse` is a Jupiter quote the caller already checked, e.g. the
+   * `response` of a requote; without one a fresh quote is fetched.
+   */
+  async swapSolToTokenFromWallet(
+    walletId: string,
+    userId: bigint,
+    amountSOL: number,
+    outputToken: string,
+    slippageBps?: number,
+    metadata?: Record<string, any>,
+    quoteResponse?: any
+  ): Promise<{ signature: string }>{
+    if (!amountSOL || amountSOL <= 0) throw new Error('Amount must be > 0');
+    slippageBps = slippageBps ?? await this.getPreferredSlippageBps(userId);
+
+    const secret = await this.getPrivateKey(walletId, userId);
     if (!secret) throw new Error('Unable to decrypt private key');
 
     const owner = Keypair.fromSecretKey(secret);
     const ownerPk = owner.publicKey.toBase58();
 
-    const outputMint = await this.resolveOutputMint(outputToken);
+    const outInfo = await this.resolveTokenInfo(outputToken);
+    const outputMint = outInfo.address;
     const amount = Math.floor(amountSOL * LAMPORTS_PER_SOL);
 
     // Preflight: ensure enough SOL to cover amount + fees
@@ -99,9 +345,9 @@ export class SwapService {
       asLegacyTransaction: false,
     } as any;
 
-    const quoteRes = await axios.get(JUP_QUOTE_URL, { params: quoteParams, timeout: 20000 });
-    const quote = quoteRes.data;
+    const quote = quoteResponse ?? (await axios.get(JUP_QUOTE_URL, { params: quoteParams, timeout: 20000 })).data;
     if (!quote || !quote.routePlan) throw new Error('No route found for the swap');
+    this.assertQuoteMatches(quote, SOL_MINT, outputMint, String(amount));
 
     // 2) Get swap transaction
     const swapRes = await axios.post(JUP_SWAP_URL, {
@@ -130,6 +376,16 @@ export class SwapService {
     const sig = await this.connection.sendTransaction(tx, { skipPreflight: false, preflightCommitment: 'confirmed' });
     await this.connection.confirmTransaction(sig, 'confirmed');
 
+    await this.recordSwap(walletId, sig, amountSOL, quote, {
+      inputMint: SOL_MINT,
+      inputSymbol: 'SOL',
+      outputMint,
+      outputSymbol: outInfo.symbol,
+      outputDecimals: outInfo.decimals,
+      slippageBps,
+      lastValidBlockHeight: swapData.lastValidBlockHeight,
+    }, metadata);
+
     return { signature: sig };
   }
 
@@ -138,14 +394,33 @@ export class SwapService {
     amount: number,
     inputToken: string,
     outputToken: string,
-    slippageBps = 100
+    slippageBps?: number,
+    metadata?: Record<string, any>,
+    quoteResponse?: any
   ): Promise<{ signature: string }>{
-    if (!amount || amount <= 0) throw new Error('Amount must be > 0');
-
     const primary = await this.getPrimaryWallet(userId);
     if (!primary) throw new Error('No primary wallet found');
 
-    const secret = await this.getPrivateKey(primary.id, userId);
+    return this.swapTokenToTokenFromWallet(primary.id, userId, amount, inputToken, outputToken, slippageBps, metadata, quoteResponse);
+  }
+
+  /**
+   * Swaps between two tokens from a specific wallet id. `quoteResponse` works as in swapSolToTokenFromWallet.
+   */
+  async swapTokenToTokenFromWallet(
+    walletId: string,
+    userId: bigint,
+    amount: number,
+    inputToken: string,
+    outputToken: string,
+    slippageBps?: number,
+    metadata?: Record<string, any>,
+    quoteResponse?: any
+  ): Promise<{ signature: string }>{
+    if (!amount || amount <= 0) throw new Error('Amount must be > 0');
+    slippageBps = slippageBps ?? await this.getPreferredSlippageBps(userId);
+
+    const secret = await this.getPrivateKey(walletId, userId);
     if (!secret) throw new Error('Unable to decrypt private key');
 
     const owner = Keypair.fromSecretKey(secret);
@@ -181,9 +456,9 @@ export class SwapService {
       asLegacyTransaction: false,
     } as any;
 
-    const quoteRes = await axios.get(JUP_QUOTE_URL, { params: quoteParams, timeout: 20000 });
-    const quote = quoteRes.data;
+    const quote = quoteResponse ?? (await axios.get(JUP_QUOTE_URL, { params: quoteParams, timeout: 20000 })).data;
     if (!quote || !quote.routePlan) throw new Error('No route found for the swap');
+    this.assertQuoteMatches(quote, inInfo.address, outInfo.address, amountIn.toString());
 
     // 2) Get swap transaction
     const swapRes = await axios.post(JUP_SWAP_URL, {
@@ -212,6 +487,16 @@ export class SwapService {
     const sig = await this.connection.sendTransaction(tx, { skipPreflight: false, preflightCommitment: 'confirmed' });
     await this.connection.confirmTransaction(sig, 'confirmed');
 
+    await this.recordSwap(walletId, sig, amount, quote, {
+      inputMint: inInfo.address,
+      inputSymbol: inInfo.symbol,
+      outputMint: outInfo.address,
+      outputSymbol: outInfo.symbol,
+      outputDecimals: outInfo.decimals,
+      slippageBps,
+      lastValidBlockHeight: swapData.lastValidBlockHeight,
+    }, metadata);
+
     return { signature: sig };
   }
 }
@@ -2,6 +2,49 @@ import { db } from '../database/connection';
 import { TelegramUser, UserPreferences, UserSession } from '../types';
 import { hashPassword, verifyPassword } from '../utils/crypto';
 import crypto from 'crypto';
+import { InValue } from '@libsql/client';
+
+export type PreferenceUpdates = Partial<Omit<UserPreferences, 'user_id'>>;
+
+function booleanValue(name: string) {
+  return (value: unknown): boolean => {
+    if (typeof value !== 'boolean') throw new Error(`${name} must be true or false`);
+    return value;
+  };
+}
+
+function numberInRange(name: string, min: number, max: number) {
+  return (value: unknown): number => {
+    const n = Number(value);
+    if (typeof value === 'boolean' || !Number.isFinite(n) || n < min || n > max) {
+      throw new Error(`${name} must be between ${min} and ${max}`);
+    }
+    return n;
+  };
+}
+
+// Columns users may change and how each value is checked. Keys double as the SQL column names.
+const PREFERENCE_VALIDATORS: { [K in keyof PreferenceUpdates]-?: (value: unknown) => InValue } = {
+  notifications_enabled: booleanValue('Notifications'),
+  auto_approve_small_amounts: booleanValue('Auto-approve'),
+  max_auto_approve_amount: numberInRange('Auto-approve limit (SOL)', 0.000001, 1000),
+  auto_approve_daily_cap: numberInRange('Daily auto-approve cap (SOL)', 0.000001, 10000),
+  preferred_slippage: numberInRange('Slippage (%)', 0.01, 50),
+  risk_tolerance: (value: unknown) => {
+    if (value !== 'low' && value !== 'medium' && value !== 'high') throw new Error('Risk tolerance must be low, medium or high');
+    return value;
+  },
+  dust_threshold_usd: numberInRange('Dust threshold (USD)', 0, 1000000),
+};
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
 export class UserService {
   /**
@@ -27,7 +70,7 @@ export class UserService {
       await db.run(
         `UPDATE users SET 
          username = ?, first_name = ?, last_name = ?, 
-         language_code = ?, updated_at = CURRENT_TIMESTAMP
+         language_code = COALESCE(language_code, ?), updated_at = CURRENT_TIMESTAMP
          WHERE telegram_id = ?`,
         [
           telegramUserData.username || null,
@@ -93,6 +136,17 @@ export class UserService {
     }
   }
 
+  /**
+   * Checks whether the user has set a password
+   */
+  async hasPassword(userId: bigint): Promise<boolean> {
+    const secret = await db.get<{ user_id: string }>(
+      'SELECT user_id FROM user_secrets WHERE user_id = ?',
+      [userId.toString()]
+    );
+    return !!secret;
+  }
+
   /**
    * Verifies a provided password against the stored hash
    */
@@ -105,6 +159,38 @@ export class UserService {
     return verifyPassword(password, secret.password_hash, secret.password_salt);
   }
 
+  /**
+   * Sets or replaces a user's PIN (hashed), accepted instead of the password for confirmations
+   */
+  async setUserPin(userId: bigint, pin: string): Promise<void> {
+    const { hash, salt } = hashPassword(pin);
+    await db.run(
+      `INSERT INTO user_pins (user_id, pin_hash, pin_salt) VALUES (?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET pin_hash = excluded.pin_hash, pin_salt = excluded.pin_salt, updated_at = CURRENT_TIMESTAMP`,
+      [userId.toString(), hash, salt]
+    );
+  }
+
+  /**
+   * Checks whether the user has set a PIN
+   */
+  async hasPin(userId: bigint): Promise<boolean> {
+    const pin = await db.get<{ user_id: string }>('SELECT user_id FROM user_pins WHERE user_id = ?', [userId.toString()]);
+    return !!pin;
+  }
+
+  /**
+   * Verifies a provided PIN against the stored hash
+   */
+  async verifyUserPin(userId: bigint, pin: string): Promise<boolean> {
+    const secret = await db.get<{ pin_hash: string; pin_salt: string }>(
+      'SELECT pin_hash, pin_salt FROM user_pins WHERE user_id = ?',
+      [userId.toString()]
+    );
+    if (!secret) return false;
+    return verifyPassword(pin, secret.pin_hash, secret.pin_salt);
+  }
+
   /**
    * Gets a user by Telegram ID
    */
@@ -140,21 +226,48 @@ export class UserService {
   }
 
   /**
-   * Updates user preferences
+   * Updates user preferences. Only whitelisted columns are written and every value is validated.
    */
-  async updateUserPreferences(
-    userId: bigint, 
-    updates: Partial<Omit<UserPreferences, 'user_id' | 'created_at' | 'updated_at'>>
-  ): Promise<void> {
-    const setClause = Object.keys(updates)
-      .map(key => `${key} = ?`)
-      .join(', ');
-    
-    const values = Object.values(updates);
+  async updateUserPreferences(userId: bigint, updates: PreferenceUpdates): Promise<void> {
+    const columns: string[] = [];
+    const values: InValue[] = [];
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      const validate = PREFERENCE_VALIDATORS[key as keyof PreferenceUpdates];
+      if (!validate) throw new Error(`Unknown preference: ${key}`);
+      columns.push(`${key} = ?`);
+      values.push(validate(value));
+    }
+    if (!columns.length) return;
+    values.push(userId.toString());
+
+    await db.run(
+      `UPDATE user_preferences SET ${columns.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE user_id = ?`,
+      values
+    );
+  }
+
+  /**
+   * Updates a user's timezone and/or language
+   */
+  async updateUserProfile(userId: bigint, updates: { timezone?: string; language_code?: string }): Promise<void> {
+    const columns: string[] = [];
+    const values: InValue[] = [];
+    if (updates.timezone !== undefined) {
+      if (!isValidTimezone(updates.timezone)) throw new Error(`Unknown timezone: ${updates.timezone}`);
+      columns.push('timezone = ?');
+      values.push(updates.timezone);
+    }
+    if (updates.language_code !== undefined) {
+      if (!/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(updates.language_code)) throw new Error(`Invalid language code: ${updates.language_code}`);
+      columns.push('language_code = ?');
+      values.push(updates.language_code);
+    }
+    if (!columns.length) return;
     values.push(userId.toString());
 
     await db.run(
-      `UPDATE user_preferences SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE user_id = ?`,
+      `UPDATE users SET ${columns.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE telegram_id = ?`,
       values
     );
   }
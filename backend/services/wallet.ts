@@ -1,9 +1,60 @@
-import { Keypair, PublicKey, Connection, LAMPORTS_PER_SOL, SystemProgram, Transaction as SolanaTransaction, sendAndConfirmTransaction } from '@solana/web3.js';
-import { getAssociatedTokenAddress, createTransferInstruction, TOKEN_PROGRAM_ID, createAssociatedTokenAccountInstruction } from '@solana/spl-token';
+import { Keypair, PublicKey, Connection, LAMPORTS_PER_SOL, SystemProgram, Transaction as SolanaTransaction, TransactionInstruction, PACKET_DATA_SIZE, SendTransactionError, sendAndConfirmTransaction } from '@solana/web3.js';
+import { getAssociatedTokenAddress, createTransferInstruction, TOKEN_PROGRAM_ID, createAssociatedTokenAccountInstruction, createAssociatedTokenAccountIdempotentInstruction, ACCOUNT_SIZE } from '@solana/spl-token';
 import { db } from '../database/connection';
 import { Wallet, WalletCreationResult, Transaction } from '../types';
 import { WalletEncryption, EncryptedWallet } from '../utils/wallet-encryptor';
+import { keypairFromSecret, ImportedKey } from '../utils/key-import';
 import crypto from 'crypto';
+import bs58 from 'bs58';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const BASE_TX_FEE_SOL = 0.000005;
+
+export type TransactionRecordOptions = {
+  type?: Transaction['transaction_type'];
+  metadata?: Record<string, any>;
+};
+
+export type TokenSendPreview = {
+  decimals: number;
+  balance: number; // sender's token balance
+  createsRecipientAccount: boolean; // the recipient has no token account yet and the sender pays its rent
+  accountRentSol: number;
+  networkFeeSol: number;
+};
+
+/**
+ * One transfer in a batch. `mint` and `decimals` are set for SPL tokens and omitted for SOL.
+ */
+export type BatchTransfer = {
+  toAddress: string;
+  amount: number;
+  mint?: string;
+  decimals?: number;
+};
+
+export type BatchTransferOutcome = {
+  index: number; // position in the transfers passed in
+  ok: boolean;
+  signature?: string; // also set on failures whose transaction was signed, since it may still land
+  error?: string;
+};
+
+export type BatchSendPreview = {
+  transactionCount: number;
+  newTokenAccounts: number; // recipient token accounts the sender pays rent for
+  accountRentSol: number;
+  networkFeeSol: number;
+  newSolRecipients: string[]; // SOL recipients with no account yet
+  minNewAccountSol: number; // least SOL such a recipient can be sent (rent-exempt minimum), 0 when there are none
+};
+
+export type TransactionHistoryFilter = {
+  type?: Transaction['transaction_type'];
+  tokenMint?: string;
+  limit?: number;
+  offset?: number;
+};
 
 export class WalletService {
   private connection: Connection;
@@ -33,55 +84,51 @@ export class WalletService {
 
       // Generate new keypair
       const keypair = Keypair.generate();
-      const publicKey = keypair.publicKey.toString();
-      const privateKeyBytes = keypair.secretKey; // Uint8Array
-      const privateKeyHex = Buffer.from(privateKeyBytes).toString('hex');
+      const wallet = await this.saveKeypair(userId, keypair, walletName);
 
-      // Encrypt private key using master key + env salt/iv
-      const encrypted: EncryptedWallet = WalletEncryption.encryptPrivateKey(privateKeyHex);
-
-      // Check if this is the user's first wallet
-      const walletCount = await db.get<{ count: number }>(
-        'SELECT COUNT(*) as count FROM wallets WHERE user_id = ?',
-        [userId.toString()]
-      );
-
-      const isPrimary = walletCount?.count === 0;
+      return { wallet, success: true };
+    } catch (error) {
+      console.error('Error creating wallet:', error);
+      return {
+        wallet: {} as Wallet,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
 
-      // Insert wallet into database
-      const walletId = crypto.randomUUID();
-      await db.run(
-        `INSERT INTO wallets (id, user_id, public_key, encrypted_private_key, iv, salt, tag, wallet_name, is_primary)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          walletId,
-          userId.toString(),
-          publicKey,
-          encrypted.encryptedPrivateKey,
-          encrypted.iv,
-          encrypted.salt,
-          encrypted.tag,
-          walletName,
-          isPrimary
-        ]
+  /**
+   * Imports an existing wallet from a base58 secret key, a JSON byte array or a BIP39 mnemonic
+   */
+  async importWallet(
+    userId: bigint,
+    secret: string,
+    walletName: string,
+    derivationPath?: string
+  ): Promise<WalletCreationResult & { source?: ImportedKey['source']; derivationPath?: string }> {
+    try {
+      const existingName = await db.get<Wallet>(
+        'SELECT * FROM wallets WHERE user_id = ? AND wallet_name = ?',
+        [userId.toString(), walletName]
       );
+      if (existingName) {
+        return { wallet: existingName, success: false, error: 'Wallet with this name already exists' };
+      }
 
-      // Get the created wallet
-      const wallet = await db.get<Wallet>(
-        'SELECT * FROM wallets WHERE id = ?',
-        [walletId]
+      const imported = keypairFromSecret(secret, derivationPath);
+      const existingKey = await db.get<Wallet>(
+        'SELECT * FROM wallets WHERE public_key = ?',
+        [imported.keypair.publicKey.toBase58()]
       );
-
-      if (!wallet) {
-        throw new Error('Failed to retrieve created wallet');
+      if (existingKey) {
+        return { wallet: {} as Wallet, success: false, error: 'This wallet is already registered with the bot' };
       }
 
-      // Update balance
-      await this.updateWalletBalance(walletId);
-
-      return { wallet, success: true };
+      const wallet = await this.saveKeypair(userId, imported.keypair, walletName);
+      return { wallet, success: true, source: imported.source, derivationPath: imported.derivationPath };
     } catch (error) {
-      console.error('Error creating wallet:', error);
+      // Never log the error object itself here; parsing errors may echo parts of the secret
+      console.error('Error importing wallet:', error instanceof Error ? error.message : 'unknown error');
       return {
         wallet: {} as Wallet,
         success: false,
@@ -91,17 +138,97 @@ export class WalletService {
   }
 
   /**
-   * Gets all wallets for a user
+   * Encrypts and stores a keypair. The user's first wallet becomes primary.
    */
-  async getUserWallets(userId: bigint): Promise<Wallet[]> {
+  private async saveKeypair(userId: bigint, keypair: Keypair, walletName: string): Promise<Wallet> {
+    const publicKey = keypair.publicKey.toString();
+    const privateKeyBytes = keypair.secretKey; // Uint8Array
+    const privateKeyHex = Buffer.from(privateKeyBytes).toString('hex');
+
+    // Encrypt private key with a key derived for this user and wallet
+    const encrypted: EncryptedWallet = WalletEncryption.encryptPrivateKey(privateKeyHex, { userId, publicKey });
+
+    // Check if this is the user's first wallet
+    const walletCount = await db.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM wallets WHERE user_id = ?',
+      [userId.toString()]
+    );
+
+    const isPrimary = walletCount?.count === 0;
+
+    // Insert wallet into database
+    const walletId = crypto.randomUUID();
+    await db.run(
+      `INSERT INTO wallets (id, user_id, public_key, encrypted_private_key, iv, salt, tag, key_version, key_derivation, wallet_name, is_primary)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        walletId,
+        userId.toString(),
+        publicKey,
+        encrypted.encryptedPrivateKey,
+        encrypted.iv,
+        encrypted.salt,
+        encrypted.tag,
+        encrypted.keyVersion || 1,
+        encrypted.derivation || 'user',
+        walletName,
+        isPrimary
+      ]
+    );
+
+    // Get the created wallet
+    const wallet = await db.get<Wallet>(
+      'SELECT * FROM wallets WHERE id = ?',
+      [walletId]
+    );
+
+    if (!wallet) {
+      throw new Error('Failed to retrieve created wallet');
+    }
+
+    // Update balance
+    await this.updateWalletBalance(walletId);
+
+    return wallet;
+  }
+
+  /**
+   * Gets all wallets for a user. Archived wallets are left out unless `includeArchived` is set; they sort last,
+   * so the numbers shown by /wallets stay the same either way.
+   */
+  async getUserWallets(userId: bigint, includeArchived: boolean = false): Promise<Wallet[]> {
     const wallets = await db.all<Wallet>(
-      'SELECT * FROM wallets WHERE user_id = ? ORDER BY is_primary DESC, created_at ASC',
+      `SELECT * FROM wallets WHERE user_id = ?${includeArchived ? '' : ' AND archived_at IS NULL'}
+       ORDER BY archived_at IS NOT NULL, is_primary DESC, created_at ASC`,
       [userId.toString()]
     );
 
     return wallets;
   }
 
+  /**
+   * Finds one of the user's wallets by name ("Trading", "Trading wallet", "Main" for "Main Wallet"), index from
+   * /wallets ("2", "#2", "wallet 2") or public key prefix. Names win over indexes, so "Wallet 2" finds that name.
+   */
+  async findUserWallet(userId: bigint, ref: string, includeArchived: boolean = false): Promise<Wallet | null> {
+    const wallets = await this.getUserWallets(userId, includeArchived);
+    const query = ref.trim().replace(/^(my|the)\s+/i, '').toLowerCase();
+    if (!query) return null;
+
+    const byName = wallets.find(w => w.wallet_name.toLowerCase() === query)
+      || wallets.find(w => w.wallet_name.toLowerCase() === query.replace(/\s+wallet$/, ''))
+      || wallets.find(w => w.wallet_name.toLowerCase() === `${query} wallet`);
+    if (byName) return byName;
+
+    const index = query.match(/^(?:wallet\s+)?#?(\d+)$/);
+    if (index) return wallets[Number(index[1]) - 1] || null;
+
+    if (ref.trim().length >= 4) {
+      return wallets.find(w => w.public_key === ref.trim() || w.public_key.startsWith(ref.trim())) || null;
+    }
+    return null;
+  }
+
   /**
    * Gets a specific wallet by ID
    */
@@ -172,9 +299,11 @@ export class WalletService {
         iv: (wallet as any).iv,
         salt: (wallet as any).salt,
         tag: (wallet as any).tag,
+        keyVersion: Number(wallet.key_version || 1),
+        derivation: wallet.key_derivation || 'global',
       };
 
-      const privateKeyHex = WalletEncryption.decryptPrivateKey(encrypted);
+      const privateKeyHex = WalletEncryption.decryptPrivateKey(encrypted, { userId, publicKey: wallet.public_key });
       const privateKeyBytes = Buffer.from(privateKeyHex, 'hex');
       return new Uint8Array(privateKeyBytes);
     } catch (error) {
@@ -241,7 +370,8 @@ export class WalletService {
     userId: bigint, 
     toAddress: string, 
     amount: number, 
-    mintAddress: string
+    mintAddress: string,
+    record: TransactionRecordOptions = {}
   ): Promise<{ signature: string; walletId: string; }> {
     if (!toAddress) throw new Error('Destination address is required');
     if (!amount || amount <= 0) throw new Error('Amount must be > 0');
@@ -250,18 +380,65 @@ export class WalletService {
     const primary = await this.getPrimaryWallet(userId);
     if (!primary) throw new Error('No primary wallet found');
 
-    return this.sendTokenFromWallet(primary.id, userId, toAddress, amount, mintAddress);
+    return this.sendTokenFromWallet(primary.id, userId, toAddress, amount, mintAddress, record);
+  }
+
+  /**
+   * Checks an SPL send before it is confirmed: token balance, decimals, and the SOL needed for fees plus the
+   * recipient's token account when it does not exist yet. Throws with a user-facing message when the send cannot work.
+   */
+  async previewTokenSend(walletId: string, toAddress: string, amount: number, mintAddress: string): Promise<TokenSendPreview> {
+    const wallet = await this.getWallet(walletId);
+    if (!wallet) throw new Error('Wallet not found');
+
+    let toPublicKey: PublicKey;
+    try {
+      toPublicKey = new PublicKey(toAddress);
+    } catch {
+      throw new Error('Invalid recipient address');
+    }
+    const ownerPublicKey = new PublicKey(wallet.public_key);
+    const mintPublicKey = new PublicKey(mintAddress);
+
+    const mintInfo = await this.connection.getParsedAccountInfo(mintPublicKey);
+    const decimals = (mintInfo.value?.data as any)?.parsed?.info?.decimals;
+    if (typeof decimals !== 'number') throw new Error('Token mint not found on chain');
+    const units = amount * 10 ** decimals;
+    if (Math.abs(units - Math.round(units)) > 1e-6) {
+      throw new Error(`This token supports at most ${decimals} decimal places`);
+    }
+
+    const fromTokenAccount = await getAssociatedTokenAddress(mintPublicKey, ownerPublicKey);
+    const fromBalance = await this.connection.getTokenAccountBalance(fromTokenAccount).catch(() => null);
+    const balance = Number(fromBalance?.value?.uiAmount || 0);
+    if (balance < amount) throw new Error(`Insufficient balance: you have ${balance}, need ${amount}`);
+
+    const toTokenAccount = await getAssociatedTokenAddress(mintPublicKey, toPublicKey);
+    const createsRecipientAccount = !(await this.connection.getAccountInfo(toTokenAccount));
+    const accountRentSol = createsRecipientAccount
+      ? (await this.connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE)) / LAMPORTS_PER_SOL
+      : 0;
+
+    const solBalance = (await this.connection.getBalance(ownerPublicKey)) / LAMPORTS_PER_SOL;
+    const needSol = BASE_TX_FEE_SOL + accountRentSol;
+    if (solBalance < needSol) {
+      throw new Error(`You need ~${needSol.toFixed(6)} SOL for fees${createsRecipientAccount ? ' and the recipient token account' : ''}. You have ${solBalance.toFixed(6)} SOL.`);
+    }
+
+    return { decimals, balance, createsRecipientAccount, accountRentSol, networkFeeSol: BASE_TX_FEE_SOL };
   }
 
   /**
-   * Sends SPL tokens from a specific wallet
+   * Sends SPL tokens from a specific wallet.
+   * `record` lets callers such as offramps store the transfer under their own type and metadata.
    */
   async sendTokenFromWallet(
     walletId: string,
     userId: bigint,
     toAddress: string,
     amount: number,
-    mintAddress: string
+    mintAddress: string,
+    record: TransactionRecordOptions = {}
   ): Promise<{ signature: string; walletId: string; }> {
     try {
       const fromWallet = await this.getWallet(walletId);
@@ -288,37 +465,24 @@ export class WalletService {
       // Check if destination token account exists
       const toAccountInfo = await this.connection.getAccountInfo(toTokenAccount);
       
-      const { blockhash } = await this.connection.getLatestBlockhash('finalized');
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('finalized');
       const tx = new SolanaTransaction({ recentBlockhash: blockhash, feePayer: payer.publicKey });
 
-      // Create associated token account if it doesn't exist
-      if (!toAccountInfo) {
-        tx.add(
-          createAssociatedTokenAccountInstruction(
-            payer.publicKey,
-            toTokenAccount,
-            toPublicKey,
-            mintPublicKey
-          )
-        );
-      }
-
       // Get token decimals to calculate the correct amount
       const mintInfo = await this.connection.getParsedAccountInfo(mintPublicKey);
       const decimals = (mintInfo.value?.data as any)?.parsed?.info?.decimals || 6;
       const transferAmount = Math.floor(amount * Math.pow(10, decimals));
 
-      // Add transfer instruction
-      tx.add(
-        createTransferInstruction(
-          fromTokenAccount,
-          toTokenAccount,
-          payer.publicKey,
-          transferAmount,
-          [],
-          TOKEN_PROGRAM_ID
-        )
-      );
+      // Creates the associated token account first if it doesn't exist
+      tx.add(...this.buildTokenTransferInstructions(
+        payer.publicKey,
+        fromTokenAccount,
+        toTokenAccount,
+        toPublicKey,
+        mintPublicKey,
+        BigInt(transferAmount),
+        !toAccountInfo
+      ));
 
       const signature = await sendAndConfirmTransaction(
         this.connection,
@@ -328,10 +492,12 @@ export class WalletService {
       );
 
       // Record transaction
-      await this.recordTransaction(walletId, signature, 'send', amount, mintAddress, {
+      await this.recordTransaction(walletId, signature, record.type || 'send', amount, mintAddress, {
         to: toAddress,
         amount: transferAmount,
         decimals,
+        lastValidBlockHeight,
+        ...record.metadata,
       });
 
       return { signature, walletId };
@@ -341,6 +507,198 @@ export class WalletService {
     }
   }
 
+  /**
+   * Instructions for one SPL transfer, preceded by the recipient's token account creation when it is missing
+   */
+  private buildTokenTransferInstructions(
+    owner: PublicKey,
+    fromTokenAccount: PublicKey,
+    toTokenAccount: PublicKey,
+    toPublicKey: PublicKey,
+    mintPublicKey: PublicKey,
+    rawAmount: bigint,
+    createAccount: boolean
+  ): TransactionInstruction[] {
+    const instructions: TransactionInstruction[] = [];
+    if (createAccount) {
+      // Idempotent, so it is harmless when the account was created in the meantime
+      instructions.push(createAssociatedTokenAccountIdempotentInstruction(owner, toTokenAccount, toPublicKey, mintPublicKey));
+    }
+    instructions.push(createTransferInstruction(fromTokenAccount, toTokenAccount, owner, rawAmount, [], TOKEN_PROGRAM_ID));
+    return instructions;
+  }
+
+  /**
+   * Accounts a batch sends to that do not exist yet, as base58 addresses: recipient token accounts of its SPL
+   * transfers and recipients of its SOL transfers
+   */
+  private async findMissingAccounts(transfers: BatchTransfer[]): Promise<{ tokenAccounts: Set<string>; recipients: Set<string> }> {
+    const tokenAccounts = new Set<string>();
+    const recipients = new Set<string>();
+    for (const t of transfers) {
+      if (t.mint) tokenAccounts.add((await getAssociatedTokenAddress(new PublicKey(t.mint), new PublicKey(t.toAddress))).toBase58());
+      else recipients.add(t.toAddress);
+    }
+    const keys = [...new Set([...tokenAccounts, ...recipients])];
+    const missing = new Set<string>();
+    for (let i = 0; i < keys.length; i += 100) {
+      const chunk = keys.slice(i, i + 100);
+      const infos = await this.connection.getMultipleAccountsInfo(chunk.map(k => new PublicKey(k)));
+      infos.forEach((info, j) => { if (!info) missing.add(chunk[j]); });
+    }
+    return {
+      tokenAccounts: new Set([...tokenAccounts].filter(k => missing.has(k))),
+      recipients: new Set([...recipients].filter(k => missing.has(k))),
+    };
+  }
+
+  /**
+   * Groups a batch into as few transactions as fit the packet size limit. Each group lists the indexes of its
+   * transfers and their instructions. Every group that pays a missing token account creates it (idempotently),
+   * so a failed group never leaves later transfers to the same account without one.
+   */
+  private async packTransfers(owner: PublicKey, transfers: BatchTransfer[], missing: Set<string>): Promise<Array<{ indexes: number[]; instructions: TransactionInstruction[] }>> {
+    const groups: Array<{ indexes: number[]; instructions: TransactionInstruction[]; creates: Set<string> }> = [];
+    // Only the size matters here, so any blockhash will do
+    const fits = (instructions: TransactionInstruction[]) => {
+      const tx = new SolanaTransaction({ recentBlockhash: PublicKey.default.toBase58(), feePayer: owner });
+      tx.add(...instructions);
+      try {
+        return tx.serializeMessage().length + 1 + 64 <= PACKET_DATA_SIZE; // plus the signature count and one signature
+      } catch {
+        return false;
+      }
+    };
+
+    for (let index = 0; index < transfers.length; index++) {
+      const t = transfers[index];
+      const toPublicKey = new PublicKey(t.toAddress);
+      let account: string | null = null;
+      let build: (createAccount: boolean) => TransactionInstruction[];
+      if (t.mint) {
+        const mintPublicKey = new PublicKey(t.mint);
+        const fromTokenAccount = await getAssociatedTokenAddress(mintPublicKey, owner);
+        const toTokenAccount = await getAssociatedTokenAddress(mintPublicKey, toPublicKey);
+        const rawAmount = BigInt(Math.round(t.amount * 10 ** (t.decimals ?? 0)));
+        if (missing.has(toTokenAccount.toBase58())) account = toTokenAccount.toBase58();
+        build = (createAccount) => this.buildTokenTransferInstructions(owner, fromTokenAccount, toTokenAccount, toPublicKey, mintPublicKey, rawAmount, createAccount);
+      } else {
+        build = () => [SystemProgram.transfer({ fromPubkey: owner, toPubkey: toPublicKey, lamports: Math.round(t.amount * LAMPORTS_PER_SOL) })];
+      }
+
+      const current = groups[groups.length - 1];
+      const joined = current && build(account !== null && !current.creates.has(account));
+      if (current && joined && fits([...current.instructions, ...joined])) {
+        current.indexes.push(index);
+        current.instructions.push(...joined);
+        if (account) current.creates.add(account);
+      } else {
+        groups.push({ indexes: [index], instructions: build(account !== null), creates: new Set(account ? [account] : []) });
+      }
+    }
+    return groups.map(({ indexes, instructions }) => ({ indexes, instructions }));
+  }
+
+  /**
+   * Counts the transactions, new recipient token accounts and SOL costs of a batch before it is confirmed
+   */
+  async previewBatchSend(walletId: string, transfers: BatchTransfer[]): Promise<BatchSendPreview> {
+    const wallet = await this.getWallet(walletId);
+    if (!wallet) throw new Error('Wallet not found');
+
+    const missing = await this.findMissingAccounts(transfers);
+    const groups = await this.packTransfers(new PublicKey(wallet.public_key), transfers, missing.tokenAccounts);
+    const accountRentSol = missing.tokenAccounts.size
+      ? (missing.tokenAccounts.size * (await this.connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE))) / LAMPORTS_PER_SOL
+      : 0;
+    // A transfer that leaves a new account below the rent-exempt minimum fails, and takes its whole transaction with it
+    const minNewAccountSol = missing.recipients.size
+      ? (await this.connection.getMinimumBalanceForRentExemption(0)) / LAMPORTS_PER_SOL
+      : 0;
+
+    return {
+      transactionCount: groups.length,
+      newTokenAccounts: missing.tokenAccounts.size,
+      accountRentSol,
+      networkFeeSol: groups.length * BASE_TX_FEE_SOL,
+      newSolRecipients: [...missing.recipients],
+      minNewAccountSol,
+    };
+  }
+
+  /**
+   * Sends many SOL and SPL transfers from one wallet, packed into as few transactions as possible.
+   * A failed transaction only fails its own transfers; the rest still go out. Each sent transaction is recorded
+   * as one send listing its transfers, tagged with `batchId`.
+   */
+  async sendBatchFromWallet(
+    walletId: string,
+    userId: bigint,
+    transfers: BatchTransfer[],
+    record: TransactionRecordOptions = {}
+  ): Promise<BatchTransferOutcome[]> {
+    try {
+      const fromWallet = await this.getWallet(walletId);
+      if (!fromWallet) throw new Error('Wallet not found');
+
+      const secret = await this.getPrivateKey(walletId, userId);
+      if (!secret) throw new Error('Unable to decrypt private key');
+
+      const payer = Keypair.fromSecretKey(secret);
+      const batchId = crypto.randomUUID();
+      const missing = await this.findMissingAccounts(transfers);
+      const groups = await this.packTransfers(payer.publicKey, transfers, missing.tokenAccounts);
+      const outcomes: BatchTransferOutcome[] = [];
+
+      for (const group of groups) {
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('finalized');
+        const tx = new SolanaTransaction({ recentBlockhash: blockhash, feePayer: payer.publicKey });
+        tx.add(...group.instructions);
+
+        let signature: string;
+        try {
+          signature = await sendAndConfirmTransaction(this.connection, tx, [payer], { commitment: 'confirmed' });
+        } catch (error: any) {
+          console.error('Error sending batch transaction:', error);
+          // A rejected transaction never landed, but one that timed out may still land, so keep its signature to check
+          const signed = tx.signature && !(error instanceof SendTransactionError) ? bs58.encode(tx.signature) : undefined;
+          for (const index of group.indexes) {
+            outcomes.push({ index, ok: false, signature: signed, error: error?.message || String(error) });
+          }
+          continue;
+        }
+
+        for (const index of group.indexes) outcomes.push({ index, ok: true, signature });
+
+        // Signatures are unique, so the whole transaction is one history row listing its transfers.
+        // The funds already moved, so a database error must not stop the remaining groups.
+        const sent = group.indexes.map(index => transfers[index]);
+        const mints = new Set(sent.map(t => t.mint || null));
+        const singleMint = mints.size === 1 ? sent[0].mint : undefined;
+        try {
+          await this.recordTransaction(walletId, signature, record.type || 'send', mints.size === 1 ? Number(sent.reduce((sum, t) => sum + t.amount, 0).toFixed(9)) : 0, singleMint, {
+            transfers: sent.map(t => ({
+              to: t.toAddress,
+              amount: t.amount,
+              ...(t.mint ? { mint: t.mint, decimals: t.decimals } : {}),
+            })),
+            batchId,
+            lastValidBlockHeight,
+            ...record.metadata,
+          });
+        } catch (error) {
+          console.error('Error recording batch transaction:', error);
+        }
+      }
+
+      await this.updateWalletBalance(walletId).catch(error => console.error('Error updating balance after batch:', error));
+      return outcomes.sort((a, b) => a.index - b.index);
+    } catch (error) {
+      console.error('Error sending batch:', error);
+      throw error instanceof Error ? error : new Error('Unknown error while sending batch');
+    }
+  }
+
   /**
    * Sends SOL from a specific wallet id
    */
@@ -379,6 +737,81 @@ export class WalletService {
     }
   }
 
+  /**
+   * Moves every SPL token and then all remaining SOL from a wallet to `toAddress`, e.g. before deleting it.
+   * Each transfer is recorded as a send. Token accounts are left open, so their rent stays in them.
+   */
+  async sweepWallet(walletId: string, userId: bigint, toAddress: string): Promise<{ signatures: string[]; tokensMoved: number; solMoved: number; }> {
+    try {
+      const fromWallet = await this.getWallet(walletId);
+      if (!fromWallet) throw new Error('Wallet not found');
+
+      const secret = await this.getPrivateKey(walletId, userId);
+      if (!secret) throw new Error('Unable to decrypt private key');
+
+      const payer = Keypair.fromSecretKey(secret);
+      const toPublicKey = new PublicKey(toAddress);
+      const signatures: string[] = [];
+      let tokensMoved = 0;
+
+      // Tokens first, while there is still SOL for fees and new token accounts
+      const accounts = await this.connection.getParsedTokenAccountsByOwner(payer.publicKey, { programId: TOKEN_PROGRAM_ID });
+      for (const { pubkey, account } of accounts.value) {
+        const info = (account.data as any)?.parsed?.info;
+        const rawAmount = BigInt(info?.tokenAmount?.amount || 0);
+        if (!info?.mint || rawAmount === BigInt(0)) continue;
+
+        const mintPublicKey = new PublicKey(info.mint);
+        const toTokenAccount = await getAssociatedTokenAddress(mintPublicKey, toPublicKey);
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('finalized');
+        const tx = new SolanaTransaction({ recentBlockhash: blockhash, feePayer: payer.publicKey });
+        if (!(await this.connection.getAccountInfo(toTokenAccount))) {
+          tx.add(createAssociatedTokenAccountInstruction(payer.publicKey, toTokenAccount, toPublicKey, mintPublicKey));
+        }
+        tx.add(createTransferInstruction(pubkey, toTokenAccount, payer.publicKey, rawAmount, [], TOKEN_PROGRAM_ID));
+
+        const signature = await sendAndConfirmTransaction(this.connection, tx, [payer], { commitment: 'confirmed' });
+        signatures.push(signature);
+        tokensMoved++;
+
+        const decimals = Number(info.tokenAmount.decimals || 0);
+        await this.recordTransaction(walletId, signature, 'send', Number(rawAmount) / 10 ** decimals, info.mint, {
+          to: toAddress,
+          amount: rawAmount.toString(),
+          decimals,
+          sweep: true,
+          lastValidBlockHeight,
+        });
+      }
+
+      // Then all SOL minus the fee, which leaves the account empty
+      const lamports = await this.connection.getBalance(payer.publicKey, 'confirmed');
+      const sendLamports = lamports - Math.round(BASE_TX_FEE_SOL * LAMPORTS_PER_SOL);
+      let solMoved = 0;
+      if (sendLamports > 0) {
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('finalized');
+        const tx = new SolanaTransaction({ recentBlockhash: blockhash, feePayer: payer.publicKey });
+        tx.add(SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: toPublicKey, lamports: sendLamports }));
+
+        const signature = await sendAndConfirmTransaction(this.connection, tx, [payer], { commitment: 'confirmed' });
+        signatures.push(signature);
+        solMoved = sendLamports / LAMPORTS_PER_SOL;
+        await this.recordTransaction(walletId, signature, 'send', solMoved, undefined, {
+          to: toAddress,
+          lamports: sendLamports,
+          sweep: true,
+          lastValidBlockHeight,
+        });
+      }
+
+      await this.updateWalletBalance(walletId);
+      return { signatures, tokensMoved, solMoved };
+    } catch (error) {
+      console.error('Error sweeping wallet:', error);
+      throw error instanceof Error ? error : new Error('Unknown error while sweeping wallet');
+    }
+  }
+
   /**
    * Deletes a wallet (only if not primary and user has other wallets)
    */
@@ -413,6 +846,45 @@ export class WalletService {
     }
   }
 
+  /**
+   * Archives a wallet: it drops out of /wallets and can no longer be picked as a source, but keeps its
+   * transaction history. The primary wallet cannot be archived.
+   */
+  async archiveWallet(walletId: string, userId: bigint): Promise<boolean> {
+    try {
+      const wallet = await db.get<Wallet>(
+        'SELECT * FROM wallets WHERE id = ? AND user_id = ?',
+        [walletId, userId.toString()]
+      );
+      if (!wallet || wallet.is_primary) return false;
+
+      await db.run(
+        'UPDATE wallets SET archived_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?',
+        [walletId, userId.toString()]
+      );
+      return true;
+    } catch (error) {
+      console.error('Error archiving wallet:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Brings an archived wallet back into /wallets
+   */
+  async unarchiveWallet(walletId: string, userId: bigint): Promise<boolean> {
+    try {
+      await db.run(
+        'UPDATE wallets SET archived_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?',
+        [walletId, userId.toString()]
+      );
+      return true;
+    } catch (error) {
+      console.error('Error unarchiving wallet:', error);
+      return false;
+    }
+  }
+
   /**
    * Renames a wallet
    */
@@ -452,12 +924,47 @@ export class WalletService {
     return transactions;
   }
 
+  /**
+   * Gets a page of transactions across all of a user's wallets, newest first
+   */
+  async getUserTransactions(
+    userId: bigint,
+    filter: TransactionHistoryFilter = {}
+  ): Promise<{ transactions: Array<Transaction & { wallet_name: string }>; total: number }> {
+    const where: string[] = ['w.user_id = ?'];
+    const params: Array<string | number> = [userId.toString()];
+
+    if (filter.type) {
+      where.push('t.transaction_type = ?');
+      params.push(filter.type);
+    }
+    if (filter.tokenMint) {
+      // Swaps keep both mints in metadata; native SOL transfers have no token_mint
+      const solClause = filter.tokenMint === SOL_MINT ? 't.token_mint IS NULL OR ' : '';
+      where.push(`(${solClause}t.token_mint = ? OR t.metadata LIKE ?)`);
+      params.push(filter.tokenMint, `%"${filter.tokenMint}"%`);
+    }
+
+    const whereSql = where.join(' AND ');
+    const count = await db.get<{ count: number }>(
+      `SELECT COUNT(*) as count FROM transactions t JOIN wallets w ON w.id = t.wallet_id WHERE ${whereSql}`,
+      params
+    );
+    const transactions = await db.all<Transaction & { wallet_name: string }>(
+      `SELECT t.*, w.wallet_name FROM transactions t JOIN wallets w ON w.id = t.wallet_id
+       WHERE ${whereSql} ORDER BY t.created_at DESC, t.rowid DESC LIMIT ? OFFSET ?`,
+      [...params, filter.limit ?? 10, filter.offset ?? 0]
+    );
+
+    return { transactions, total: Number(count?.count || 0) };
+  }
+
   /**
    * Records a transaction
    */
   async recordTransaction(
     walletId: string,
-    signature: string,
+    signature: string | null,
     type: Transaction['transaction_type'],
     amount: number,
     tokenMint?: string,
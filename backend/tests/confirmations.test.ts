@@ -0,0 +1,94 @@
+import './setup';
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { SignatureStatus, TransactionError } from '@solana/web3.js';
+import { db } from '../database/connection';
+import { ConfirmationResult, ConfirmationService, SignatureStatusSource } from '../services/confirmations';
+
+const USER_ID = 1001;
+const WALLET_ID = 'wallet-confirmations';
+const BLOCK_HEIGHT = 500;
+
+function statusSource(statuses: Record<string, Partial<SignatureStatus> | null>): SignatureStatusSource {
+  return {
+    getSignatureStatuses: async (signatures: string[]) => ({
+      context: { slot: 1 },
+      value: signatures.map(s => (statuses[s] ? ({ slot: 1, confirmations: null, err: null, ...statuses[s] } as SignatureStatus) : null)),
+    }),
+    getBlockHeight: async () => BLOCK_HEIGHT,
+  } as unknown as SignatureStatusSource;
+}
+
+async function addPending(signature: string, metadata: Record<string, unknown> = {}): Promise<void> {
+  await db.run(
+    `INSERT INTO transactions (id, wallet_id, signature, transaction_type, amount, status, metadata)
+     VALUES (?, ?, ?, 'send', 0.1, 'pending', ?)`,
+    [`tx-${signature}`, WALLET_ID, signature, JSON.stringify(metadata)]
+  );
+}
+
+async function statusOf(signature: string): Promise<string | undefined> {
+  return (await db.get<{ status: string }>('SELECT status FROM transactions WHERE signature = ?', [signature]))?.status;
+}
+
+before(async () => {
+  await db.initialize();
+  await db.run('INSERT INTO users (telegram_id, first_name) VALUES (?, ?)', [USER_ID, 'Test']);
+  await db.run(
+    `INSERT INTO wallets (id, user_id, public_key, encrypted_private_key, iv, salt, tag, wallet_name, is_primary)
+     VALUES (?, ?, ?, 'x', 'x', 'x', 'x', 'Main Wallet', true)`,
+    [WALLET_ID, USER_ID, 'ConfirmationsTestWallet1111111111111111111']
+  );
+});
+
+test('checkPending settles finalized, errored and expired transactions once', async () => {
+  await addPending('sig-finalized', { lastValidBlockHeight: BLOCK_HEIGHT + 100 });
+  await addPending('sig-errored', { lastValidBlockHeight: BLOCK_HEIGHT + 100 });
+  await addPending('sig-expired', { lastValidBlockHeight: BLOCK_HEIGHT - 1 });
+  await addPending('sig-processing', { lastValidBlockHeight: BLOCK_HEIGHT + 100 });
+  await addPending('sig-in-flight', { lastValidBlockHeight: BLOCK_HEIGHT + 100 });
+
+  const service = new ConfirmationService(statusSource({
+    'sig-finalized': { confirmationStatus: 'finalized' },
+    'sig-errored': { confirmationStatus: 'confirmed', err: { InstructionError: [0, 'Custom'] } as TransactionError },
+    'sig-processing': { confirmationStatus: 'confirmed' },
+  }));
+
+  const results: ConfirmationResult[] = [];
+  await service.checkPending(async (result) => { results.push(result); });
+
+  const bySignature = new Map(results.map(r => [r.transaction.signature, r]));
+  assert.equal(results.length, 3);
+  assert.equal(bySignature.get('sig-finalized')?.status, 'confirmed');
+  assert.equal(bySignature.get('sig-errored')?.status, 'failed');
+  assert.equal(bySignature.get('sig-errored')?.reason, 'error');
+  assert.equal(bySignature.get('sig-expired')?.status, 'failed');
+  assert.equal(bySignature.get('sig-expired')?.reason, 'expired');
+  assert.equal(bySignature.get('sig-finalized')?.transaction.wallet_name, 'Main Wallet');
+
+  assert.equal(await statusOf('sig-finalized'), 'confirmed');
+  assert.equal(await statusOf('sig-errored'), 'failed');
+  assert.equal(await statusOf('sig-expired'), 'failed');
+  assert.equal(await statusOf('sig-processing'), 'pending');
+  assert.equal(await statusOf('sig-in-flight'), 'pending');
+
+  // A second pass must not report the settled rows again
+  const again: ConfirmationResult[] = [];
+  await service.checkPending(async (result) => { again.push(result); });
+  assert.equal(again.length, 0);
+});
+
+test('checkPending expires rows without a block height once they are unknown for too long', async () => {
+  await addPending('sig-unknown');
+
+  const service = new ConfirmationService(statusSource({}));
+  const results: ConfirmationResult[] = [];
+  await service.checkPending(async (result) => { results.push(result); });
+  assert.equal(results.length, 0);
+  assert.equal(await statusOf('sig-unknown'), 'pending');
+
+  await service.checkPending(async (result) => { results.push(result); }, new Date(Date.now() + 60 * 60 * 1000));
+  assert.equal(results.length, 1);
+  assert.equal(results[0].transaction.signature, 'sig-unknown');
+  assert.equal(results[0].reason, 'expired');
+});
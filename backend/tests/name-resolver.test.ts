@@ -0,0 +1,57 @@
+import './setup';
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import { db } from '../database/connection';
+import { BatchSendService } from '../services/batch-send';
+import { StaticNameResolver, setNameResolver } from '../services/name-resolver';
+import { Wallet } from '../types';
+
+const owner = Keypair.generate().publicKey.toBase58();
+const subOwner = Keypair.generate().publicKey.toBase58();
+const wallet = { id: 'wallet-names', user_id: 2002n, public_key: Keypair.generate().publicKey.toBase58(), wallet_name: 'Main Wallet' } as Wallet;
+
+/**
+ * A BatchSendService whose balances and fee preview come from fixtures instead of the RPC
+ */
+function batchService(): BatchSendService {
+  const service = new BatchSendService();
+  (service as any).portfolioService = {
+    getPortfolio: async () => ({ address: wallet.public_key, sol: 10, tokens: [] }),
+  };
+  (service as any).walletService = {
+    previewBatchSend: async () => ({
+      transactionCount: 1,
+      newTokenAccounts: 0,
+      accountRentSol: 0,
+      networkFeeSol: 0.000005,
+      newSolRecipients: [],
+      minNewAccountSol: 0,
+    }),
+  };
+  return service;
+}
+
+before(async () => {
+  await db.initialize();
+  setNameResolver(new StaticNameResolver({ 'toly.sol': owner, 'pay.toly.sol': subOwner }));
+});
+
+test('batch rows addressed to .sol domains resolve through the shared resolver', async () => {
+  const plan = await batchService().prepare(wallet.user_id, wallet, 'TOLY.sol,0.5,SOL\npay.toly.sol,0.25,SOL');
+
+  assert.deepEqual(plan.errors, []);
+  assert.deepEqual(plan.transfers.map(t => [t.recipient, t.toAddress]), [
+    ['TOLY.sol', owner],
+    ['pay.toly.sol', subOwner],
+  ]);
+});
+
+test('batch rows addressed to unregistered domains are rejected', async () => {
+  const plan = await batchService().prepare(wallet.user_id, wallet, 'toly.sol,0.5,SOL\nnobody.sol,1,SOL');
+
+  assert.equal(plan.transfers.length, 1);
+  assert.equal(plan.errors.length, 1);
+  assert.equal(plan.errors[0].line, 2);
+  assert.match(plan.errors[0].error, /nobody\.sol is not a registered \.sol domain/);
+});
@@ -0,0 +1,11 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { after } from 'node:test';
+
+// Imported before anything that touches the database, so each test file gets its own throwaway SQLite file
+const file = path.join(os.tmpdir(), `mysol-test-${crypto.randomBytes(6).toString('hex')}.db`);
+process.env.LIBSQL_URL = `file:${file}`;
+
+after(() => fs.rmSync(file, { force: true }));
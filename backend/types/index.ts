@@ -17,8 +17,11 @@ export interface Wallet {
   user_id: bigint;
   public_key: string;
   encrypted_private_key: string;
+  key_version: number;
+  key_derivation: 'global' | 'user';
   wallet_name: string;
   is_primary: boolean;
+  archived_at?: Date | null;
   balance_sol: number;
   last_balance_update: Date;
   created_at: Date;
@@ -37,21 +40,96 @@ export interface Transaction {
   id: string;
   wallet_id: string;
   signature: string;
-  transaction_type: 'send' | 'receive' | 'swap' | 'token_launch';
+  transaction_type: 'send' | 'receive' | 'swap' | 'offramp' | 'onramp' | 'token_launch';
   amount: number;
   token_mint?: string;
   status: 'pending' | 'confirmed' | 'failed';
+  metadata?: string; // JSON string
   created_at: Date;
   confirmed_at?: Date;
 }
 
+export interface LimitOrder {
+  id: string;
+  user_id: bigint;
+  chat_id: number;
+  side: 'buy' | 'sell';
+  input_mint: string;
+  input_symbol: string;
+  output_mint: string;
+  output_symbol: string;
+  amount: number;
+  watch_mint: string;
+  watch_symbol: string;
+  trigger_condition: 'below' | 'above';
+  trigger_price: number;
+  status: 'open' | 'triggered' | 'filled' | 'failed' | 'cancelled';
+  signature?: string;
+  error?: string;
+  created_at: Date;
+  updated_at: Date;
+  filled_at?: Date;
+}
+
+export interface DcaPlan {
+  id: string;
+  user_id: bigint;
+  chat_id: number;
+  input_mint: string;
+  input_symbol: string;
+  output_mint: string;
+  output_symbol: string;
+  amount: number;
+  cadence: string;
+  interval_seconds: number;
+  next_run_at: string;
+  end_at?: string;
+  status: 'active' | 'completed' | 'cancelled';
+  runs_completed: number;
+  runs_failed: number;
+  last_run_at?: string;
+  last_signature?: string;
+  last_error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PriceAlert {
+  id: string;
+  user_id: bigint;
+  chat_id: number;
+  token_mint: string;
+  token_symbol: string;
+  metric: 'price' | 'mcap';
+  alert_condition: 'above' | 'below';
+  threshold: number;
+  is_repeating: boolean;
+  cooldown_seconds: number;
+  status: 'active' | 'triggered' | 'cancelled';
+  trigger_count: number;
+  last_triggered_at?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Contact {
+  id: string;
+  user_id: bigint;
+  name: string;
+  address: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface UserPreferences {
   user_id: bigint;
   notifications_enabled: boolean;
   auto_approve_small_amounts: boolean;
   max_auto_approve_amount: number;
+  auto_approve_daily_cap: number;
   preferred_slippage: number;
   risk_tolerance: 'low' | 'medium' | 'high';
+  dust_threshold_usd: number;
 }
 
 export interface BotCommand {
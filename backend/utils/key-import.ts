@@ -0,0 +1,77 @@
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import * as bip39 from 'bip39';
+import { derivePath } from 'ed25519-hd-key';
+
+// Path used by Phantom, Solflare and Backpack for the first account
+export const DEFAULT_DERIVATION_PATH = "m/44'/501'/0'/0'";
+
+export type ImportedKey = {
+  keypair: Keypair;
+  source: 'base58' | 'bytes' | 'mnemonic';
+  derivationPath?: string;
+};
+
+/**
+ * Checks a derivation path such as m/44'/501'/0'/0'. ed25519 only supports hardened segments.
+ */
+export function isValidDerivationPath(path: string): boolean {
+  return /^m(\/\d+')+$/.test(path.trim());
+}
+
+/**
+ * Builds a keypair from a base58 secret key, a JSON byte array or a BIP39 mnemonic
+ */
+export function keypairFromSecret(input: string, derivationPath: string = DEFAULT_DERIVATION_PATH): ImportedKey {
+  const secret = input.trim();
+
+  // JSON byte array, as written by solana-keygen
+  if (secret.startsWith('[')) {
+    let bytes: number[];
+    try {
+      bytes = JSON.parse(secret);
+    } catch {
+      throw new Error('Invalid JSON byte array');
+    }
+    if (!Array.isArray(bytes) || !bytes.every(b => Number.isInteger(b) && b >= 0 && b <= 255)) {
+      throw new Error('Byte array must only contain numbers between 0 and 255');
+    }
+    return { keypair: keypairFromBytes(Uint8Array.from(bytes)), source: 'bytes' };
+  }
+
+  // Mnemonic: several words separated by whitespace
+  const words = secret.toLowerCase().split(/\s+/);
+  if (words.length > 1) {
+    if (![12, 15, 18, 21, 24].includes(words.length)) {
+      throw new Error('Seed phrases must have 12, 15, 18, 21 or 24 words');
+    }
+    const mnemonic = words.join(' ');
+    if (!bip39.validateMnemonic(mnemonic)) throw new Error('Invalid seed phrase (checksum mismatch or unknown word)');
+    if (!isValidDerivationPath(derivationPath)) throw new Error(`Invalid derivation path: ${derivationPath}`);
+
+    const seed = bip39.mnemonicToSeedSync(mnemonic);
+    const { key } = derivePath(derivationPath, seed.toString('hex'));
+    return { keypair: Keypair.fromSeed(key), source: 'mnemonic', derivationPath };
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = bs58.decode(secret);
+  } catch {
+    throw new Error('Unrecognized key format. Send a base58 private key, a JSON byte array or a seed phrase.');
+  }
+  return { keypair: keypairFromBytes(bytes), source: 'base58' };
+}
+
+function keypairFromBytes(bytes: Uint8Array): Keypair {
+  // 64 bytes is a full secret key; 32 bytes is just the seed
+  if (bytes.length === 64) {
+    try {
+      return Keypair.fromSecretKey(bytes);
+    } catch {
+      throw new Error('Secret key does not match its public key');
+    }
+  }
+  if (bytes.length === 32) return Keypair.fromSeed(bytes);
+  throw new Error(`Expected a 64-byte secret key, got ${bytes.length} bytes`);
+}
@@ -1,81 +1,147 @@
 import crypto from 'crypto';
 
+/**
+ * How a wallet's AES key is derived:
+ * - global: PBKDF2(master key, ENCRYPTION_SALT_HEX), shared by every wallet (legacy rows)
+ * - user: PBKDF2(master key + owner id, random per-wallet salt), bound to the owner and public key
+ */
+export type KeyDerivation = 'global' | 'user';
+
 export interface EncryptedWallet {
   encryptedPrivateKey: string;
   iv: string;
   salt: string;
   tag: string;
+  keyVersion?: number; // rows written before key rotation existed are version 1
+  derivation?: KeyDerivation; // rows written before per-user keys existed are global
+}
+
+/**
+ * The wallet a ciphertext belongs to. Part of the key and of the authenticated data,
+ * so a ciphertext copied onto another user's row does not decrypt.
+ */
+export interface WalletKeyOwner {
+  userId: bigint | string;
+  publicKey: string;
+}
+
+/**
+ * Master key material for one key version. The salt is only needed for global rows.
+ */
+export interface MasterKeyMaterial {
+  version: number;
+  masterKey: string;
+  saltHex?: string;
 }
 
 export class WalletEncryption {
   private static readonly ALGORITHM = 'aes-256-gcm';
   private static readonly KEY_LENGTH = 32; // 256 bits
+  private static readonly SALT_LENGTH = 32; // per-wallet salt, 256 bits
   private static readonly ITERATIONS = 100000; // PBKDF2 iterations
 
-  private static getMasterKey(): Buffer {
-    const master = process.env.ENCRYPTION_MASTER_KEY;
-    if (!master) throw new Error('ENCRYPTION_MASTER_KEY not set');
-    return Buffer.from(master, 'utf8');
+  /**
+   * Version of the key in ENCRYPTION_MASTER_KEY / ENCRYPTION_SALT_HEX, used for all new ciphertexts
+   */
+  static getCurrentKeyVersion(): number {
+    const version = Number(process.env.ENCRYPTION_KEY_VERSION || 1);
+    if (!Number.isInteger(version) || version < 1) throw new Error('ENCRYPTION_KEY_VERSION must be a positive integer');
+    return version;
   }
 
-  private static getSalt(): Buffer {
-    const saltHex = process.env.ENCRYPTION_SALT_HEX;
-    if (!saltHex) throw new Error('ENCRYPTION_SALT_HEX not set');
-    return Buffer.from(saltHex, 'hex');
+  /**
+   * Key material for a version. Older versions stay readable during a rotation rollout
+   * through ENCRYPTION_MASTER_KEY_V<n> and ENCRYPTION_SALT_HEX_V<n>.
+   */
+  static getKeyMaterial(version: number = this.getCurrentKeyVersion()): MasterKeyMaterial {
+    const isCurrent = version === this.getCurrentKeyVersion();
+    const masterKey = isCurrent ? process.env.ENCRYPTION_MASTER_KEY : process.env[`ENCRYPTION_MASTER_KEY_V${version}`];
+    const saltHex = isCurrent ? process.env.ENCRYPTION_SALT_HEX : process.env[`ENCRYPTION_SALT_HEX_V${version}`];
+    if (!masterKey) throw new Error(isCurrent ? 'ENCRYPTION_MASTER_KEY not set' : `ENCRYPTION_MASTER_KEY_V${version} not set`);
+    return { version, masterKey, saltHex };
   }
 
+  // Derive key using PBKDF2; per-user keys mix the owner id into the key material like utils/crypto does
+  private static deriveKey(masterKey: string, salt: Buffer, owner?: WalletKeyOwner): Buffer {
+    const keyMaterial = owner
+      ? Buffer.concat([Buffer.from(masterKey, 'utf8'), Buffer.from(owner.userId.toString())])
+      : Buffer.from(masterKey, 'utf8');
+    return crypto.pbkdf2Sync(keyMaterial, salt, this.ITERATIONS, this.KEY_LENGTH, 'sha256');
+  }
 
-  // Derive key from master key and provided salt using PBKDF2
-  private static deriveKeyFromMaster(): Buffer {
-    const master = this.getMasterKey();
-    const salt = this.getSalt();
-    return crypto.pbkdf2Sync(master, salt, this.ITERATIONS, this.KEY_LENGTH, 'sha256');
+  private static getAad(owner: WalletKeyOwner): Buffer {
+    return Buffer.from(`${owner.userId.toString()}:${owner.publicKey}`);
   }
 
-  // Encrypt private key using master-derived key and a per-wallet random IV
-  static encryptPrivateKey(privateKey: string): EncryptedWallet {
+  // Encrypt private key with the current master key, a per-user derived key and a per-wallet random salt and IV
+  static encryptPrivateKey(privateKey: string, owner: WalletKeyOwner): EncryptedWallet {
     try {
-      const key = this.deriveKeyFromMaster();
-      const iv = crypto.randomBytes(16); // 128-bit IV per wallet
-      const salt = this.getSalt();
-      const cipher = crypto.createCipheriv(this.ALGORITHM, key, iv);
-
-      let encrypted = cipher.update(privateKey, 'utf8', 'hex');
-      encrypted += cipher.final('hex');
-
-      const tag = cipher.getAuthTag();
-
-      return {
-        encryptedPrivateKey: encrypted,
-        iv: iv.toString('hex'),
-        salt: salt.toString('hex'),
-        tag: tag.toString('hex'),
-      };
+      return this.encryptWithKey(privateKey, this.getKeyMaterial(), owner);
     } catch (error) {
       throw new Error(`Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Decrypt using master-derived key and the stored IV
-  static decryptPrivateKey(encryptedWallet: EncryptedWallet): string {
+  // Decrypt using the key version, derivation and salt stored with the wallet
+  static decryptPrivateKey(encryptedWallet: EncryptedWallet, owner: WalletKeyOwner): string {
     try {
-      const key = this.deriveKeyFromMaster();
-      const { encryptedPrivateKey, tag, iv } = encryptedWallet;
-      const tagBuffer = Buffer.from(tag, 'hex');
-      const ivBuffer = Buffer.from(iv, 'hex');
-
-      const decipher = crypto.createDecipheriv(this.ALGORITHM, key, ivBuffer);
-      decipher.setAuthTag(tagBuffer);
-
-      let decrypted = decipher.update(encryptedPrivateKey, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-
-      return decrypted;
+      return this.decryptWithKey(encryptedWallet, this.getKeyMaterial(encryptedWallet.keyVersion || 1), owner);
     } catch (error) {
       throw new Error(`Decryption failed: ${error instanceof Error ? error.message : 'Invalid key or corrupted data'}`);
     }
   }
 
+  /**
+   * Encrypts with explicit key material (used by key rotation). Always writes a per-user ciphertext.
+   */
+  static encryptWithKey(privateKey: string, material: MasterKeyMaterial, owner: WalletKeyOwner): EncryptedWallet {
+    const salt = crypto.randomBytes(this.SALT_LENGTH);
+    const key = this.deriveKey(material.masterKey, salt, owner);
+    const iv = crypto.randomBytes(16); // 128-bit IV per wallet
+    const cipher = crypto.createCipheriv(this.ALGORITHM, key, iv);
+    cipher.setAAD(this.getAad(owner));
+
+    let encrypted = cipher.update(privateKey, 'utf8', 'hex');
+    encrypted += cipher.final('hex');
+
+    const tag = cipher.getAuthTag();
+
+    return {
+      encryptedPrivateKey: encrypted,
+      iv: iv.toString('hex'),
+      salt: salt.toString('hex'),
+      tag: tag.toString('hex'),
+      keyVersion: material.version,
+      derivation: 'user',
+    };
+  }
+
+  /**
+   * Decrypts with explicit key material (used by key rotation)
+   */
+  static decryptWithKey(encryptedWallet: EncryptedWallet, material: MasterKeyMaterial, owner: WalletKeyOwner): string {
+    const { encryptedPrivateKey, tag, iv } = encryptedWallet;
+    const perUser = encryptedWallet.derivation === 'user';
+
+    let key: Buffer;
+    if (perUser) {
+      key = this.deriveKey(material.masterKey, Buffer.from(encryptedWallet.salt, 'hex'), owner);
+    } else {
+      const saltHex = encryptedWallet.salt || material.saltHex;
+      if (!saltHex) throw new Error(`ENCRYPTION_SALT_HEX${material.version === this.getCurrentKeyVersion() ? '' : `_V${material.version}`} not set`);
+      key = this.deriveKey(material.masterKey, Buffer.from(saltHex, 'hex'));
+    }
+
+    const decipher = crypto.createDecipheriv(this.ALGORITHM, key, Buffer.from(iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(tag, 'hex'));
+    if (perUser) decipher.setAAD(this.getAad(owner));
+
+    let decrypted = decipher.update(encryptedPrivateKey, 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+
+    return decrypted;
+  }
+
   static validatePassword(password: string): { isValid: boolean; requirements: string[] } {
     const requirements: string[] = [];
     let isValid = true;
@@ -4,8 +4,10 @@ import { Connection, Keypair, VersionedTransaction } from "@solana/web3.js";
 import bs58 from "bs58";
 import axios from "axios";
 import { getPendingSwap, clearPendingSwap, executeJupiterSwap } from "./swapTokens";
+import { SwapService } from "../../../../../backend/services/swap";
 
 const RPC_URL = process.env.HELIUS_RPC || "https://api.mainnet-beta.solana.com";
+const swapService = new SwapService(RPC_URL);
 
 // Helper function to get wallet from private key
 function getWalletFromPrivateKey(): Keypair | null {
@@ -121,8 +123,18 @@ export const confirmSwap = createTool({
     }
     
     try {
+      // Re-quote and refuse if the output fell too far below what the user confirmed
+      const check = await swapService.requote(pendingSwap.preview);
+      if (!check.ok) {
+        clearPendingSwap();
+        return {
+          success: false,
+          message: `🚫 **SWAP ABORTED**\n\nThe expected output fell ${check.dropPct.toFixed(2)}% (from ~${formatNumber(pendingSwap.outputAmount)} to ~${formatNumber(check.quote.outAmount)} ${pendingSwap.outputToken}), more than the ${check.tolerancePct}% allowed. No transaction was executed. Request a new quote to try again.`,
+        };
+      }
+
       console.log("🔄 Executing Jupiter swap...");
-      const signature = await executeJupiterSwap(pendingSwap.quote, wallet);
+      const signature = await executeJupiterSwap(check.quote.response, wallet);
       
       // Get the actual output amount from the transaction
       const connection = new Connection(RPC_URL);
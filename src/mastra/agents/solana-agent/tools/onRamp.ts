@@ -1,6 +1,7 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
 import { initializeSDK, createOrder, observeOrder } from "paj_ramp";
+import { getNameResolver, isSolDomain } from "../../../../../backend/services/name-resolver";
 
 const EnvSchema = z.enum(["staging", "production"]).optional();
 
@@ -19,7 +20,7 @@ export const createOnRampOrder = createTool({
   inputSchema: z.object({
     fiatAmount: z.number().positive(),
     currency: z.string().min(2),
-    recipient: z.string().min(32).describe("Wallet address to receive tokens"),
+    recipient: z.string().min(5).describe("Wallet address or .sol domain to receive tokens"),
     mint: z.string().min(32).describe("Token mint address"),
     chain: z.string().default("SOLANA"),
     token: z.string().min(1).describe("Verification token from session verification").optional(),
@@ -89,12 +90,12 @@ export const createOnRampOrder = createTool({
     // Accept alternate field names sometimes used by UIs
     const recipientRaw = getFromSources(['recipient', 'walletAddress', 'recipientAddress']);
     const mintRaw = getFromSources(['mint', 'tokenMint', 'mintAddress']);
-    const recipient = typeof recipientRaw === 'string' ? recipientRaw.trim() : recipientRaw;
+    const recipientIn = typeof recipientRaw === 'string' ? recipientRaw.trim() : recipientRaw;
     const mint = typeof mintRaw === 'string' ? mintRaw.trim() : mintRaw;
     const chainStr = (getFromSources(['chain']) ?? 'SOLANA') as string | undefined;
 
     console.log('[createOnRampOrder] Args snapshot:', {
-      hasRecipient: Boolean(recipient),
+      hasRecipient: Boolean(recipientIn),
       hasMint: Boolean(mint),
       fiatAmount,
       currency,
@@ -115,9 +116,16 @@ export const createOnRampOrder = createTool({
       }
     }
 
-    if (!recipient) {
+    if (!recipientIn) {
       throw new Error('Missing recipient wallet address. Provide "recipient".');
     }
+    // .sol domains resolve to the domain owner's address
+    const recipient = typeof recipientIn === 'string' && isSolDomain(recipientIn)
+      ? await getNameResolver().resolve(recipientIn)
+      : recipientIn;
+    if (!recipient) {
+      throw new Error(`${recipientIn} is not a registered .sol domain.`);
+    }
     if (!mint) {
       throw new Error('Missing token mint address. Provide "mint".');
     }
@@ -138,6 +146,7 @@ export const createOnRampOrder = createTool({
       "Onramp order created.",
       `• Order ID: ${order.id}`,
       `• Amount: ${order.fiatAmount} ${currency}`,
+      `• Recipient: ${recipient === recipientIn ? recipient : `${String(recipientIn).toLowerCase()} (${recipient})`}`,
       `• Bank: ${order.bank}`,
       `• Account Name: ${order.accountName}`,
       `• Account Number: ${order.accountNumber}`,
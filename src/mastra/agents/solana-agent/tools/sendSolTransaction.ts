@@ -3,17 +3,19 @@ import { z } from "zod";
 import { Connection, PublicKey, Keypair, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import bs58 from "bs58";
 import { setPendingTransaction } from "./confirmTransaction";
+import { ContactService, looksLikeAddress } from "../../../../../backend/services/contacts";
+import { getNameResolver, isSolDomain } from "../../../../../backend/services/name-resolver";
 
 const RPC_URL = process.env.HELIUS_RPC || "https://api.mainnet-beta.solana.com";
 
-// Helper function to extract SOL amount and recipient address from user input
+// Helper function to extract SOL amount and recipient (address, .sol domain or contact name) from user input
 function parseTransactionCommand(input: string): { amount: number; recipient: string } | null {
   console.log("🔍 Parsing transaction command:", input);
 
   const patterns = [
-    /send\s+(\d+(?:\.\d+)?)\s+sol\s+to\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i,
-    /transfer\s+(\d+(?:\.\d+)?)\s+sol\s+to\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i,
-    /pay\s+(\d+(?:\.\d+)?)\s+sol\s+to\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i,
+    /send\s+(\d+(?:\.\d+)?)\s+sol\s+to\s+((?:[A-Za-z0-9_-]+\.)?[A-Za-z0-9_-]+\.sol|[1-9A-HJ-NP-Za-km-z]{32,44}|[A-Za-z][A-Za-z0-9_-]{0,31})\b/i,
+    /transfer\s+(\d+(?:\.\d+)?)\s+sol\s+to\s+((?:[A-Za-z0-9_-]+\.)?[A-Za-z0-9_-]+\.sol|[1-9A-HJ-NP-Za-km-z]{32,44}|[A-Za-z][A-Za-z0-9_-]{0,31})\b/i,
+    /pay\s+(\d+(?:\.\d+)?)\s+sol\s+to\s+((?:[A-Za-z0-9_-]+\.)?[A-Za-z0-9_-]+\.sol|[1-9A-HJ-NP-Za-km-z]{32,44}|[A-Za-z][A-Za-z0-9_-]{0,31})\b/i,
   ];
 
   for (const pattern of patterns) {
@@ -77,16 +79,7 @@ function getWalletFromPrivateKey(): Keypair | null {
 
 // Extract the main transaction logic into a separate function
 async function executeTransaction(command: string, parsed: { amount: number; recipient: string }) {
-  const { amount, recipient } = parsed;
-  
-  // Validate recipient address
-  if (!isValidSolanaAddress(recipient)) {
-    console.log("❌ Invalid Solana address:", recipient);
-    return {
-      success: false,
-      message: "❌ Invalid Solana address. Please provide a valid Solana wallet address (32-44 characters).",
-    };
-  }
+  const { amount } = parsed;
   
   // Check if wallet is configured
   const wallet = getWalletFromPrivateKey();
@@ -97,6 +90,52 @@ async function executeTransaction(command: string, parsed: { amount: number; rec
       message: "❌ Wallet not configured. Please set WALLET_PRIVATE_KEY in your environment variables.",
     };
   }
+
+  // Resolve a .sol domain, or a contact name against the address book of the user who owns this wallet
+  let recipient = parsed.recipient;
+  let recipientLabel = recipient;
+  if (isSolDomain(recipient)) {
+    const domain = recipient.toLowerCase();
+    let owner: string | null;
+    try {
+      owner = await getNameResolver().resolve(domain);
+    } catch (error) {
+      console.log("❌ Domain resolution failed:", domain, error);
+      return {
+        success: false,
+        message: `❌ Could not resolve ${domain}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    if (!owner) {
+      console.log("❌ Unregistered domain:", domain);
+      return {
+        success: false,
+        message: `❌ ${domain} is not a registered .sol domain.`,
+      };
+    }
+    recipient = owner;
+    recipientLabel = `${domain} (${owner})`;
+  } else if (!looksLikeAddress(recipient)) {
+    const contact = await new ContactService().getContactForWalletOwner(wallet.publicKey.toString(), recipient);
+    if (!contact) {
+      console.log("❌ Unknown contact:", recipient);
+      return {
+        success: false,
+        message: `❌ No contact named "${recipient}". Save one in the bot first: save contact ${recipient.toLowerCase()} <address>`,
+      };
+    }
+    recipient = contact.address;
+    recipientLabel = `${contact.name} (${contact.address})`;
+  }
+  
+  // Validate recipient address
+  if (!isValidSolanaAddress(recipient)) {
+    console.log("❌ Invalid Solana address:", recipient);
+    return {
+      success: false,
+      message: "❌ Invalid Solana address. Please provide a valid Solana wallet address (32-44 characters).",
+    };
+  }
   
   // Safety check - maximum transaction limit
   if (amount > 1) {
@@ -152,7 +191,7 @@ async function executeTransaction(command: string, parsed: { amount: number; rec
 
    💰 **Amount:**           ${amount} SOL
    📤 **From:**             ${wallet.publicKey.toString()}
-   📥 **To:**               ${recipient}
+   📥 **To:**               ${recipientLabel}
 
 ═══════════════════════════════════════════════════════════════
 
@@ -201,7 +240,7 @@ export const sendSolTransaction = createTool({
   id: "sendSolTransaction",
   description: "Prepare a SOL transaction for confirmation. This tool parses send commands and shows confirmation details but does NOT execute the transaction.",
   inputSchema: z.object({
-    command: z.string().describe("Transaction command like 'send 0.001 SOL to [address]'"),
+    command: z.string().describe("Transaction command like 'send 0.001 SOL to [address, .sol domain or contact name]'"),
   }),
   outputSchema: z.object({
     success: z.boolean(),
@@ -4,9 +4,10 @@ import { Connection, PublicKey, Keypair, Transaction, VersionedTransaction } fro
 import bs58 from "bs58";
 import axios from "axios";
 import { searchJupiterTokens } from "./jupiterUtils";
+import { SwapService, formatQuotePreview } from "../../../../../backend/services/swap";
+import type { SwapQuote } from "../../../../../backend/services/swap";
 
 const RPC_URL = process.env.HELIUS_RPC || "https://api.mainnet-beta.solana.com";
-const JUPITER_QUOTE_API = "https://quote-api.jup.ag/v6/quote";
 const JUPITER_SWAP_API = "https://quote-api.jup.ag/v6/swap";
 
 // Known token mint addresses
@@ -30,8 +31,12 @@ let pendingSwap: {
   outputToken: string;
   slippage: number;
   quote: any;
+  preview: SwapQuote;
 } | null = null;
 
+// Quotes come from the same SwapService the Telegram bot uses
+const swapService = new SwapService(RPC_URL);
+
 // Helper function to get wallet from private key
 function getWalletFromPrivateKey(): Keypair | null {
   const privateKey = process.env.WALLET_PRIVATE_KEY || process.env.SOLANA_PRIVATE_KEY;
@@ -142,31 +147,6 @@ async function resolveTokenMint(tokenSymbol: string): Promise<{ mint: string; na
   return null;
 }
 
-// Helper function to get Jupiter quote
-async function getJupiterQuote(
-  inputMint: string,
-  outputMint: string,
-  amount: number,
-  slippageBps: number = 500 // 5% default
-): Promise<any> {
-  try {
-    const params = new URLSearchParams({
-      inputMint,
-      outputMint,
-      amount: amount.toString(),
-      slippageBps: slippageBps.toString(),
-      onlyDirectRoutes: 'false',
-      asLegacyTransaction: 'false',
-    });
-    
-    const response = await axios.get(`${JUPITER_QUOTE_API}?${params}`);
-    return response.data;
-  } catch (error: any) {
-    console.error("❌ Jupiter quote error:", error.response?.data || error.message);
-    throw new Error(`Failed to get quote: ${error.response?.data?.error || error.message}`);
-  }
-}
-
 // Helper function to execute Jupiter swap
 async function executeJupiterSwap(quote: any, wallet: Keypair): Promise<string> {
   try {
@@ -304,19 +284,13 @@ Examples:
         };
       }
       
-      // Calculate input amount in smallest units
-      const inputAmountLamports = Math.floor(parsed.amount * Math.pow(10, inputToken.decimals));
-      
       // Get Jupiter quote
       console.log("🔍 Getting Jupiter quote...");
-      const quote = await getJupiterQuote(
-        inputToken.mint,
-        outputToken.mint,
-        inputAmountLamports,
-        500 // 5% slippage
-      );
-      
-      if (!quote) {
+      let preview: SwapQuote;
+      try {
+        preview = await swapService.getQuote(inputToken.mint, outputToken.mint, parsed.amount, 500); // 5% slippage
+      } catch (error: any) {
+        console.error("❌ Jupiter quote error:", error.response?.data || error.message);
         return {
           success: false,
           message: "❌ Unable to get price quote. The token pair might not have sufficient liquidity.",
@@ -324,9 +298,8 @@ Examples:
         };
       }
       
-      // Calculate output amount
-      const outputAmount = Number(quote.outAmount) / Math.pow(10, outputToken.decimals);
-      const priceImpact = parseFloat(quote.priceImpactPct || "0");
+      const outputAmount = preview.outAmount;
+      const priceImpact = preview.priceImpactPct;
       
       // Store pending swap details
       pendingSwap = {
@@ -337,7 +310,8 @@ Examples:
         inputToken: inputToken.symbol,
         outputToken: outputToken.symbol,
         slippage: 5, // 5%
-        quote,
+        quote: preview.response,
+        preview,
       };
       
       // Create confirmation message
@@ -352,9 +326,10 @@ Examples:
    📥 **You'll Receive:**     ~${formatNumber(outputAmount)} ${outputToken.symbol}
    
    💱 **Exchange Rate:**      1 ${inputToken.symbol} = ${formatNumber(outputAmount / parsed.amount)} ${outputToken.symbol}
-   📊 **Price Impact:**       ${priceImpact.toFixed(4)}%
    ⚡ **Slippage Tolerance:** 5%
 
+${formatQuotePreview(preview).map(line => `   • ${line}`).join('\n')}
+
 ═══════════════════════════════════════════════════════════════
 
 ⚠️  **PLEASE REVIEW ALL DETAILS CAREFULLY BEFORE CONFIRMING**